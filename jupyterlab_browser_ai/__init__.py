@@ -14,3 +14,24 @@ def _jupyter_labextension_paths():
         "src": "labextension",
         "dest": "jupyterlab-browser-ai"
     }]
+
+
+def _jupyter_server_extension_points():
+    return [{
+        "module": "jupyterlab_browser_ai"
+    }]
+
+
+def _load_jupyter_server_extension(server_app):
+    """Register the model file handlers of the server extension.
+
+    Parameters
+    ----------
+    server_app: jupyterlab.labapp.LabApp
+        JupyterLab application instance
+    """
+    from .handlers import setup_handlers
+
+    setup_handlers(server_app)
+    name = "jupyterlab_browser_ai"
+    server_app.log.info(f"Registered {name} server extension")
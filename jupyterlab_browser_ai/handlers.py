@@ -0,0 +1,47 @@
+import os
+
+from jupyter_server.base.handlers import AuthenticatedFileHandler
+from jupyter_server.utils import url_path_join
+from traitlets import Unicode
+from traitlets.config import Configurable
+
+MODEL_DIR_ENV_VAR = "JUPYTERLAB_BROWSER_AI_MODEL_DIR"
+
+
+class BrowserAIModels(Configurable):
+    """Serve Transformers.js model files from a local directory."""
+
+    model_dir = Unicode(
+        "",
+        config=True,
+        help=(
+            "Directory containing Transformers.js models, laid out as "
+            "<model_dir>/<organization>/<model>/. Files are served under "
+            "<base_url>/jupyterlab-browser-ai/models/. Defaults to the "
+            f"{MODEL_DIR_ENV_VAR} environment variable."
+        ),
+    )
+
+
+def setup_handlers(server_app):
+    config = BrowserAIModels(config=server_app.config)
+    model_dir = config.model_dir or os.environ.get(MODEL_DIR_ENV_VAR, "")
+    if not model_dir:
+        return
+
+    model_dir = os.path.abspath(os.path.expanduser(model_dir))
+    if not os.path.isdir(model_dir):
+        server_app.log.warning(
+            f"jupyterlab_browser_ai: model directory {model_dir} does not exist"
+        )
+        return
+
+    web_app = server_app.web_app
+    base_url = web_app.settings["base_url"]
+    route_pattern = url_path_join(base_url, "jupyterlab-browser-ai", "models", "(.*)")
+    web_app.add_handlers(
+        ".*$", [(route_pattern, AuthenticatedFileHandler, {"path": model_dir})]
+    )
+    server_app.log.info(
+        f"jupyterlab_browser_ai: serving Transformers.js models from {model_dir}"
+    )
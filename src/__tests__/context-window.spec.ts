@@ -0,0 +1,161 @@
+import type {
+  LanguageModelV3CallOptions,
+  LanguageModelV3Message,
+  LanguageModelV3Prompt
+} from '@ai-sdk/provider';
+
+import { fitPromptToContextWindow } from '../context-window';
+
+function user(text: string): LanguageModelV3Message {
+  return { role: 'user', content: [{ type: 'text', text }] };
+}
+
+function assistant(text: string): LanguageModelV3Message {
+  return { role: 'assistant', content: [{ type: 'text', text }] };
+}
+
+function getText(message: LanguageModelV3Message): string {
+  if (message.role === 'system') {
+    return message.content;
+  }
+  return message.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('');
+}
+
+function callOptions(
+  prompt: LanguageModelV3Prompt,
+  options: Partial<LanguageModelV3CallOptions> = {}
+): LanguageModelV3CallOptions {
+  return { prompt, ...options };
+}
+
+describe('fitPromptToContextWindow', () => {
+  it('should keep prompts which fit unchanged', () => {
+    const prompt = [user('Hello'), assistant('Hi'), user('How are you?')];
+    const result = fitPromptToContextWindow(callOptions(prompt), 1000);
+    expect(result).toEqual({
+      prompt,
+      droppedMessages: 0,
+      truncatedCharacters: 0
+    });
+    expect(result.prompt).toBe(prompt);
+  });
+
+  it('should leave the oldest turns out first and keep system messages', () => {
+    // 300 characters are 100 tokens, plus 8 tokens of message overhead.
+    const text = 'x'.repeat(300);
+    const system: LanguageModelV3Message = {
+      role: 'system',
+      content: 'Be brief.'
+    };
+    const latest = user(`latest ${text}`);
+    const prompt = [
+      system,
+      user(text),
+      assistant(text),
+      user(text),
+      assistant(text),
+      latest
+    ];
+
+    const result = fitPromptToContextWindow(callOptions(prompt), 400);
+    expect(result.droppedMessages).toBe(4);
+    expect(result.truncatedCharacters).toBe(0);
+    expect(result.prompt).toEqual([system, latest]);
+  });
+
+  it('should not separate tool calls from their results', () => {
+    const text = 'x'.repeat(300);
+    const prompt: LanguageModelV3Prompt = [
+      user('Read the notebook'),
+      {
+        role: 'assistant',
+        content: [
+          {
+            type: 'tool-call',
+            toolCallId: 'call-1',
+            toolName: 'read_notebook',
+            input: '{}'
+          }
+        ]
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'call-1',
+            toolName: 'read_notebook',
+            output: { type: 'text', value: text }
+          }
+        ]
+      },
+      assistant(text),
+      user(text)
+    ];
+
+    const result = fitPromptToContextWindow(callOptions(prompt), 400);
+    expect(result.droppedMessages).toBe(4);
+    expect(result.prompt).toEqual([prompt[4]]);
+  });
+
+  it('should truncate the middle of the latest message when alone too long', () => {
+    const text = `${'a'.repeat(1500)}${'b'.repeat(1500)}`;
+    const prompt = [user(text)];
+
+    const result = fitPromptToContextWindow(callOptions(prompt), 400);
+    const truncated = getText(result.prompt[0]);
+    expect(result.droppedMessages).toBe(0);
+    expect(result.truncatedCharacters).toBeGreaterThan(0);
+    expect(truncated).toContain(
+      `[... ${result.truncatedCharacters} characters truncated to fit the context window ...]`
+    );
+    expect(truncated.startsWith('aaa')).toBe(true);
+    expect(truncated.endsWith('bbb')).toBe(true);
+    expect(truncated.length).toBeLessThan(text.length);
+    // The prompt of the call is not modified.
+    expect(getText(prompt[0])).toBe(text);
+  });
+
+  it('should truncate long tool results as text', () => {
+    const prompt: LanguageModelV3Prompt = [
+      {
+        role: 'user',
+        content: [{ type: 'text', text: 'Summarize the notebook' }]
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'call-1',
+            toolName: 'read_notebook',
+            output: { type: 'json', value: { cells: 'x'.repeat(3000) } }
+          }
+        ]
+      }
+    ];
+
+    const result = fitPromptToContextWindow(callOptions(prompt), 400);
+    const [, tool] = result.prompt;
+    expect(result.truncatedCharacters).toBeGreaterThan(0);
+    expect(tool.role).toBe('tool');
+    const part = tool.role === 'tool' ? tool.content[0] : null;
+    expect(part?.type === 'tool-result' && part.output.type).toBe('text');
+  });
+
+  it('should keep room for the requested output tokens', () => {
+    const prompt = [user('x'.repeat(300)), assistant('ok'), user('Next')];
+    expect(
+      fitPromptToContextWindow(callOptions(prompt), 400).droppedMessages
+    ).toBe(0);
+
+    const result = fitPromptToContextWindow(
+      callOptions(prompt, { maxOutputTokens: 300 }),
+      400
+    );
+    expect(result.droppedMessages).toBe(2);
+    expect(result.prompt).toEqual([prompt[2]]);
+  });
+});
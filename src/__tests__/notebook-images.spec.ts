@@ -0,0 +1,223 @@
+import { OutputAreaModel } from '@jupyterlab/outputarea';
+
+import {
+  findMarkdownImages,
+  findOutputImage,
+  getImageAltTextEdit,
+  getOutputImageAltText,
+  isPlaceholderAltText,
+  previewImageAltText,
+  setImageAltText,
+  setOutputImageAltText
+} from '../notebook-images';
+
+/**
+ * Set the alt text of the only image of a source.
+ */
+function setOnlyImageAltText(source: string, altText: string): string {
+  const images = findMarkdownImages(source);
+  expect(images).toHaveLength(1);
+  return setImageAltText(source, images[0], altText);
+}
+
+describe('findMarkdownImages', () => {
+  it('should find markdown images with their alt text and source', () => {
+    const source =
+      'Intro ![](plot.png) and ![A chart](<my chart.png> "Title")\n![x](attachment:image.png)';
+    const images = findMarkdownImages(source);
+    expect(images.map(({ alt, src }) => ({ alt, src }))).toEqual([
+      { alt: '', src: 'plot.png' },
+      { alt: 'A chart', src: 'my chart.png' },
+      { alt: 'x', src: 'attachment:image.png' }
+    ]);
+    expect(source.slice(images[1].altStart, images[1].altEnd)).toBe('A chart');
+    expect(source.slice(images[1].start, images[1].end)).toBe(
+      '![A chart](<my chart.png> "Title")'
+    );
+  });
+
+  it('should unescape brackets in markdown alt texts', () => {
+    const [image] = findMarkdownImages('![a \\[b\\]](c.png)');
+    expect(image.alt).toBe('a [b]');
+  });
+
+  it('should find HTML images in source order', () => {
+    const source =
+      '<IMG SRC=a.png alt=foo> ![](b.png) <img alt="x &amp; y" src="c.png">';
+    const images = findMarkdownImages(source);
+    expect(
+      images.map(({ syntax, alt, src }) => ({ syntax, alt, src }))
+    ).toEqual([
+      { syntax: 'html', alt: 'foo', src: 'a.png' },
+      { syntax: 'markdown', alt: '', src: 'b.png' },
+      { syntax: 'html', alt: 'x & y', src: 'c.png' }
+    ]);
+  });
+
+  it('should describe how the alt attribute is written', () => {
+    const images = findMarkdownImages(
+      '<img src="a.png"> <img alt src="b.png"> <img alt=c src="c.png"> <img alt="d" src="d.png">'
+    );
+    expect(images.map(image => image.altAttribute)).toEqual([
+      'missing',
+      'valueless',
+      'unquoted',
+      'quoted'
+    ]);
+  });
+
+  it('should keep the first of repeated attributes', () => {
+    const [image] = findMarkdownImages('<img alt="a" alt="b" src="c.png">');
+    expect(image.alt).toBe('a');
+  });
+
+  it('should skip images in fenced code blocks', () => {
+    const source =
+      '```md\n![](a.png)\n```\n~~~\n<img src="b.png">\n~~~\n![](c.png)';
+    const images = findMarkdownImages(source);
+    expect(images.map(image => image.src)).toEqual(['c.png']);
+  });
+
+  it('should skip images in inline code spans', () => {
+    const source =
+      'Write `![alt](a.png)` or ``<img src="b.png">`` to show ![](c.png)';
+    const images = findMarkdownImages(source);
+    expect(images.map(image => image.src)).toEqual(['c.png']);
+  });
+
+  it('should not open code spans with the backticks of fenced blocks', () => {
+    const source = '```\ncode\n```\n![](a.png) and `code`';
+    const images = findMarkdownImages(source);
+    expect(images.map(image => image.src)).toEqual(['a.png']);
+  });
+
+  it('should not match code spans across paragraphs', () => {
+    const source = 'An unclosed ` backtick\n\n![](a.png) and ` another';
+    const images = findMarkdownImages(source);
+    expect(images.map(image => image.src)).toEqual(['a.png']);
+  });
+});
+
+describe('isPlaceholderAltText', () => {
+  it.each([
+    ['', 'a.png'],
+    ['  ', 'a.png'],
+    ['Image', 'a.png'],
+    ['screenshot', 'a.png'],
+    ['my plot.png', 'attachment:my%20plot.png'],
+    ['figure-1', 'figures/figure-1'],
+    ['other.jpg', 'a.png']
+  ])('should treat %p for %p as a placeholder', (alt, src) => {
+    expect(isPlaceholderAltText(alt, src)).toBe(true);
+  });
+
+  it('should keep descriptive alt texts', () => {
+    expect(isPlaceholderAltText('A bar chart of sales', 'a.png')).toBe(false);
+  });
+});
+
+describe('getImageAltTextEdit', () => {
+  it('should only replace the alt text of markdown images', () => {
+    const source = 'See ![old](a.png)';
+    const [image] = findMarkdownImages(source);
+    expect(getImageAltTextEdit(source, image, 'new')).toEqual({
+      start: 6,
+      end: 9,
+      text: 'new'
+    });
+  });
+
+  it('should escape brackets and collapse whitespace in markdown', () => {
+    expect(setOnlyImageAltText('![](a.png)', ' A [red]\n chart ')).toBe(
+      '![A \\[red\\] chart](a.png)'
+    );
+  });
+
+  it('should escape quoted HTML alt attributes', () => {
+    expect(
+      setOnlyImageAltText('<img alt="old" src="a.png">', 'A "b" & <c>')
+    ).toBe('<img alt="A &quot;b&quot; &amp; &lt;c&gt;" src="a.png">');
+    expect(setOnlyImageAltText("<img alt='old' src='a.png'>", "It's")).toBe(
+      "<img alt='It&#39;s' src='a.png'>"
+    );
+  });
+
+  it('should quote unquoted HTML alt attributes', () => {
+    expect(setOnlyImageAltText('<img alt=old src=a.png>', 'A chart')).toBe(
+      '<img alt="A chart" src=a.png>'
+    );
+  });
+
+  it('should insert missing HTML alt attributes', () => {
+    expect(setOnlyImageAltText('<img src="a.png">', 'A chart')).toBe(
+      '<img alt="A chart" src="a.png">'
+    );
+  });
+
+  it('should give a value to valueless HTML alt attributes', () => {
+    const source = '<img alt src="a.png">';
+    const result = setOnlyImageAltText(source, 'A chart');
+    expect(result).toBe('<img alt="A chart" src="a.png">');
+    expect(findMarkdownImages(result)[0].alt).toBe('A chart');
+  });
+
+  it('should keep the offsets of previous images when editing from the end', () => {
+    let source = '![](a.png) <img src="b.png"> ![x](c.png)';
+    for (const image of findMarkdownImages(source).reverse()) {
+      source = setImageAltText(source, image, `Image ${image.src}`);
+    }
+    expect(source).toBe(
+      '![Image a.png](a.png) <img alt="Image b.png" src="b.png"> ![Image c.png](c.png)'
+    );
+  });
+});
+
+describe('previewImageAltText', () => {
+  it('should return the image markup before and after the change', () => {
+    const source = 'Text <img alt src="a.png"> more';
+    const [image] = findMarkdownImages(source);
+    expect(previewImageAltText(source, image, 'A chart')).toEqual([
+      '<img alt src="a.png">',
+      '<img alt="A chart" src="a.png">'
+    ]);
+  });
+});
+
+describe('output images', () => {
+  const png = 'iVBORw0KGgo=';
+
+  function createOutputs(): OutputAreaModel {
+    return new OutputAreaModel({
+      values: [
+        { output_type: 'stream', name: 'stdout', text: 'Hello' },
+        {
+          output_type: 'display_data',
+          data: { 'image/png': `${png}\n`, 'text/plain': 'Figure' },
+          metadata: { 'image/png': { width: 640 } }
+        }
+      ]
+    });
+  }
+
+  it('should find the output of a rendered image by its data URL', () => {
+    const outputs = createOutputs();
+    expect(findOutputImage(outputs, `data:image/png;base64,${png}`)).toEqual({
+      index: 1,
+      mimeType: 'image/png'
+    });
+    expect(findOutputImage(outputs, 'data:image/png;base64,other')).toBeNull();
+  });
+
+  it('should store the alt text next to the other image metadata', () => {
+    const outputs = createOutputs();
+    setOutputImageAltText(
+      outputs,
+      { index: 1, mimeType: 'image/png' },
+      ' A line\nchart '
+    );
+    const { metadata } = outputs.get(1);
+    expect(metadata['image/png']).toEqual({ width: 640, alt: 'A line chart' });
+    expect(getOutputImageAltText(metadata, 'image/png')).toBe('A line chart');
+    expect(getOutputImageAltText(metadata, 'image/jpeg')).toBe('');
+  });
+});
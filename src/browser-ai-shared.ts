@@ -0,0 +1,94 @@
+export const PLUGIN_ID = 'jupyterlab-browser-ai:plugin';
+export const WEBLLM_CUSTOM_MODELS_SETTING = 'webLLMModels';
+export const WEBLLM_CUSTOM_MODEL_RECORDS_SETTING = 'webLLMCustomModels';
+export const TRANSFORMERS_CUSTOM_MODELS_SETTING = 'transformersJsModels';
+export const LLAMACPP_CUSTOM_MODELS_SETTING = 'llamaCppModels';
+export const MODEL_PRELOAD_SETTING = 'modelPreload';
+export const MODEL_LOADING_NOTIFICATIONS_SETTING = 'modelLoadingNotifications';
+
+export const BrowserAICommandIDs = {
+  openModelStorage: 'browser-ai:open-model-storage',
+  deleteCachedModel: 'browser-ai:delete-cached-model',
+  clearModelCache: 'browser-ai:clear-model-cache',
+  unloadModel: 'browser-ai:unload-model',
+  downloadModel: 'browser-ai:download-model',
+  benchmarkModels: 'browser-ai:benchmark-models',
+  cancelModelLoad: 'browser-ai:cancel-model-load',
+  showDiagnostics: 'browser-ai:show-diagnostics',
+  showMetrics: 'browser-ai:show-metrics',
+  openSemanticSearch: 'browser-ai:semantic-search',
+  indexWorkspace: 'browser-ai:index-workspace'
+} as const;
+
+/**
+ * The built-in backends that download and run models locally. Other
+ * extensions may register more through `IBrowserAIBackendRegistry`.
+ */
+export type BrowserAIBackendId = 'web-llm' | 'transformers-js' | 'llama-cpp';
+
+/**
+ * When configured models are loaded:
+ * - `eager`: every model configured in a chat provider, at startup.
+ * - `default-provider`: the model of the default chat provider, used by new
+ *   chats, at startup, and other models when a chat is created with them.
+ * - `on-first-message`: a model when a chat first sends it a message.
+ * - `never`: no download. A chat only loads a model whose weights are
+ *   completely in the browser cache, and others are downloaded explicitly.
+ */
+export type ModelPreloadPolicy =
+  'eager' | 'default-provider' | 'on-first-message' | 'never';
+
+export const BACKEND_LABELS: Record<BrowserAIBackendId, string> = {
+  'web-llm': 'WebLLM',
+  'transformers-js': 'Transformers.js',
+  'llama-cpp': 'llama.cpp'
+};
+
+const backendLabels = new Map<string, string>(Object.entries(BACKEND_LABELS));
+
+/**
+ * The name of a built-in or registered backend.
+ */
+export function getBackendLabel(backend: string): string {
+  return backendLabels.get(backend) ?? backend;
+}
+
+export function setBackendLabel(backend: string, label: string): void {
+  backendLabels.set(backend, label);
+}
+
+export function normalizeModelName(modelName: unknown): string | null {
+  if (typeof modelName !== 'string') {
+    return null;
+  }
+
+  const normalizedModelName = modelName.trim();
+  if (normalizedModelName === '') {
+    return null;
+  }
+
+  return normalizedModelName;
+}
+
+/**
+ * Get the model IDs of a models setting. Entries are either plain model IDs
+ * or objects with an `id` and model-specific options.
+ */
+export function getUserConfiguredModelNames(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const modelNames = new Set<string>();
+
+  for (const entry of value) {
+    const modelName = normalizeModelName(
+      entry && typeof entry === 'object' ? entry.id : entry
+    );
+    if (modelName) {
+      modelNames.add(modelName);
+    }
+  }
+
+  return [...modelNames];
+}
@@ -3,26 +3,114 @@ import {
   JupyterFrontEndPlugin
 } from '@jupyterlab/application';
 
-import { Notification } from '@jupyterlab/apputils';
-import { MarkdownCell } from '@jupyterlab/cells';
-import { INotebookTracker } from '@jupyterlab/notebook';
+import type { LanguageModelV3 } from '@ai-sdk/provider';
+
+import {
+  Dialog,
+  ICommandPalette,
+  Notification,
+  showDialog
+} from '@jupyterlab/apputils';
+import type {
+  IAttachmentsCellModel,
+  ICellModel,
+  ICodeCellModel
+} from '@jupyterlab/cells';
+import { URLExt } from '@jupyterlab/coreutils';
+import { INotebookTracker, type NotebookPanel } from '@jupyterlab/notebook';
+import {
+  imageRendererFactory,
+  IRenderMimeRegistry,
+  RenderedImage,
+  type IRenderMime
+} from '@jupyterlab/rendermime';
+import { ISettingRegistry } from '@jupyterlab/settingregistry';
 import { imageIcon } from '@jupyterlab/ui-components';
 
+import type { ReadonlyPartialJSONObject } from '@lumino/coreutils';
+import { Widget } from '@lumino/widgets';
+
 import { browserAI, doesBrowserSupportBrowserAI } from '@browser-ai/core';
 
 import { streamText } from 'ai';
 
+import { PLUGIN_ID } from './browser-ai-shared';
 import { blobToBase64, CommandIDs } from './chrome-ai-shared';
+import {
+  findMarkdownImages,
+  findOutputImage,
+  getOutputImageAltText,
+  getImageAltTextEdit,
+  isPlaceholderAltText,
+  previewImageAltText,
+  setOutputImageAltText,
+  type IMarkdownImage,
+  type IOutputImage
+} from './notebook-images';
+import { IBrowserAIBackendRegistry } from './tokens';
+import { isTransformersVisionModel } from './transformers-backend';
+
+/**
+ * The Transformers.js vision model used when Chrome Built-in AI is not
+ * available.
+ */
+const DEFAULT_ALT_TEXT_MODEL = 'HuggingFaceTB/SmolVLM-256M-Instruct';
+
+function getAltTextModelName(composite: Record<string, unknown>): string {
+  return typeof composite.altTextModel === 'string' &&
+    composite.altTextModel.trim() !== ''
+    ? composite.altTextModel.trim()
+    : DEFAULT_ALT_TEXT_MODEL;
+}
+
+/**
+ * The metadata key marking the markdown captions inserted for image outputs.
+ */
+const CAPTION_METADATA_KEY = 'jupyterlab-browser-ai';
+
+function getAltTextOutputCaptions(composite: Record<string, unknown>): boolean {
+  return composite.altTextOutputCaptions === true;
+}
+
+/**
+ * An image renderer setting the alt text stored in the output metadata, which
+ * the default renderer ignores.
+ */
+class RenderedImageWithAltText extends RenderedImage {
+  async render(model: IRenderMime.IMimeModel): Promise<void> {
+    await super.render(model);
+    const altText = getOutputImageAltText(model.metadata, this.mimeType);
+    const image = this.node.querySelector('img');
+    if (image && altText) {
+      image.alt = altText;
+    }
+  }
+}
+
+const imageWithAltTextRendererFactory: IRenderMime.IRendererFactory = {
+  ...imageRendererFactory,
+  createRenderer: options => new RenderedImageWithAltText(options)
+};
 
 class ChromeAIAltTextGenerator {
-  async generateAltText(imageSrc: string): Promise<string> {
+  async generateAltText(
+    imageSrc: string,
+    model: LanguageModelV3,
+    signal?: AbortSignal
+  ): Promise<string> {
     try {
-      const response = await fetch(imageSrc);
+      const response = await fetch(imageSrc, { signal });
+      if (!response.ok) {
+        throw new Error(
+          `Failed to load the image: ${response.status} ${response.statusText}`
+        );
+      }
       const blob = await response.blob();
       const base64 = await blobToBase64(blob);
 
       const result = streamText({
-        model: browserAI(),
+        model,
+        abortSignal: signal,
         messages: [
           {
             role: 'user',
@@ -46,7 +134,7 @@ class ChromeAIAltTextGenerator {
         fullResponse += chunk;
       }
 
-      return fullResponse;
+      return fullResponse.trim();
     } catch (error) {
       console.error('Failed to generate alt text:', error);
       throw error;
@@ -54,110 +142,633 @@ class ChromeAIAltTextGenerator {
   }
 }
 
-async function updateImageAltText(
-  imageElement: HTMLImageElement,
-  altText: string,
-  notebookTracker: INotebookTracker
+/**
+ * Find the code cell output a rendered image comes from.
+ */
+function findImageOutput(
+  notebookTracker: INotebookTracker,
+  imageElement: HTMLImageElement
+): {
+  panel: NotebookPanel;
+  cellIndex: number;
+  image: IOutputImage;
+} | null {
+  const panel = notebookTracker.find(widget =>
+    widget.node.contains(imageElement)
+  );
+  if (!panel) {
+    return null;
+  }
+  const cellIndex = panel.content.widgets.findIndex(cell =>
+    cell.node.contains(imageElement)
+  );
+  const cell = panel.content.widgets[cellIndex];
+  if (!cell || cell.model.type !== 'code') {
+    return null;
+  }
+  const image = findOutputImage(
+    (cell.model as ICodeCellModel).outputs,
+    imageElement.src
+  );
+  return image ? { panel, cellIndex, image } : null;
+}
+
+/**
+ * Insert the alt text of an image output as a markdown caption below its
+ * cell, or update the caption inserted before for the same output.
+ */
+function insertAltTextCaption(
+  panel: NotebookPanel,
+  cellIndex: number,
+  image: IOutputImage,
+  altText: string
+): void {
+  const notebook = panel.content.model?.sharedModel;
+  if (!notebook) {
+    return;
+  }
+  const cellId = notebook.cells[cellIndex].id;
+  const text = altText
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\\`*_[\]<>]/g, '\\$&');
+  const source = `*Figure: ${text}*`;
+
+  // The captions of the cell follow it, one per image output.
+  let index = cellIndex + 1;
+  for (; index < notebook.cells.length; index++) {
+    const cell = notebook.cells[index];
+    const caption = cell.getMetadata(CAPTION_METADATA_KEY) as
+      { altTextCaptionFor?: string; output?: number } | undefined;
+    if (
+      cell.cell_type !== 'markdown' ||
+      caption?.altTextCaptionFor !== cellId
+    ) {
+      break;
+    }
+    if (caption.output === image.index) {
+      cell.setSource(source);
+      return;
+    }
+  }
+  notebook.insertCell(index, {
+    cell_type: 'markdown',
+    source,
+    metadata: {
+      [CAPTION_METADATA_KEY]: {
+        altTextCaptionFor: cellId,
+        output: image.index
+      }
+    }
+  });
+}
+
+/**
+ * An image of a markdown cell with empty or placeholder alt text.
+ */
+interface IAltTextCandidate {
+  cellId: string;
+  cellIndex: number;
+  image: IMarkdownImage;
+  /**
+   * The position of the image among the images of the cell.
+   */
+  imageIndex: number;
+  /**
+   * The source of the cell the image was found in.
+   */
+  source: string;
+  /**
+   * The URL the image is loaded from.
+   */
+  url: string;
+  suggestion?: string;
+  error?: string;
+}
+
+/**
+ * An alt text accepted in the review dialog.
+ */
+interface IAltTextEdit {
+  candidate: IAltTextCandidate;
+  altText: string;
+}
+
+/**
+ * The data of a cell attachment referenced by `attachment:<name>`.
+ */
+function getAttachmentData(
+  cell: ICellModel,
+  src: string
+): ReadonlyPartialJSONObject | null {
+  const attachments = (cell as Partial<IAttachmentsCellModel>).attachments;
+  if (!attachments) {
+    return null;
+  }
+  const name = src.slice('attachment:'.length);
+  let decodedName = name;
+  try {
+    decodedName = decodeURIComponent(name);
+  } catch {
+    // Keep the name as is.
+  }
+  return (attachments.get(name) ?? attachments.get(decodedName))?.data ?? null;
+}
+
+/**
+ * The data URL of a cell attachment referenced by `attachment:<name>`.
+ */
+function getAttachmentUrl(cell: ICellModel, src: string): string | null {
+  const bundle = getAttachmentData(cell, src);
+  if (!bundle) {
+    return null;
+  }
+
+  for (const [mimeType, value] of Object.entries(bundle)) {
+    if (!mimeType.startsWith('image/')) {
+      continue;
+    }
+    const data = Array.isArray(value) ? value.join('') : value;
+    if (typeof data !== 'string') {
+      continue;
+    }
+    // SVG is stored as text in notebooks, other images as base64.
+    return mimeType === 'image/svg+xml' && !/^[A-Za-z0-9+/=\s]+$/.test(data)
+      ? `data:${mimeType},${encodeURIComponent(data)}`
+      : `data:${mimeType};base64,${data.replace(/\s/g, '')}`;
+  }
+  return null;
+}
+
+/**
+ * The URL to load an image of a markdown cell from, with paths resolved
+ * relative to the notebook like the rendered cell does.
+ */
+async function resolveImageUrl(
+  panel: NotebookPanel,
+  cell: ICellModel,
+  src: string
+): Promise<string | null> {
+  if (src.startsWith('attachment:')) {
+    return getAttachmentUrl(cell, src);
+  }
+  const resolver = panel.content.rendermime.resolver;
+  const isLocal = resolver?.isLocal
+    ? resolver.isLocal(src)
+    : URLExt.isLocal(src);
+  if (!resolver || !isLocal || src.startsWith('data:')) {
+    return src;
+  }
+  return resolver.getDownloadUrl(await resolver.resolveUrl(src));
+}
+
+/**
+ * A URL comparable with the `src` of a rendered image.
+ */
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url, document.baseURI).href.replace(/\s/g, '');
+  } catch {
+    return url.replace(/\s/g, '');
+  }
+}
+
+/**
+ * Whether a rendered image shows an image of the cell source, by its resolved
+ * URL, or by the data of the attachment it references.
+ */
+async function isRenderedFrom(
+  panel: NotebookPanel,
+  cell: ICellModel,
+  image: IMarkdownImage,
+  renderedUrl: string
 ): Promise<boolean> {
+  if (image.src.startsWith('attachment:')) {
+    // Attachments are rendered as base64 data URLs, including SVG.
+    const bundle = getAttachmentData(cell, image.src) ?? {};
+    return Object.entries(bundle).some(
+      ([mimeType, data]) =>
+        normalizeUrl(`data:${mimeType};base64,${data}`) === renderedUrl
+    );
+  }
   try {
-    const currentWidget = notebookTracker.currentWidget;
-    if (!currentWidget) {
-      return false;
-    }
-
-    const notebook = currentWidget.content;
-    let activeCell = notebook.activeCell;
-
-    // Check if we have an active markdown cell.
-    if (!activeCell || activeCell.model.type !== 'markdown') {
-      // Try to find the cell containing the image by looking at all cells.
-      let targetCell: MarkdownCell | null = null;
-      let targetCellIndex = -1;
-
-      for (let i = 0; i < notebook.widgets.length; i++) {
-        const cell = notebook.widgets[i];
-        if (cell.model.type === 'markdown') {
-          const cellElement = cell.node;
-          const images = cellElement.querySelectorAll('img');
-          for (const img of images) {
-            if ((img as HTMLImageElement).src === imageElement.src) {
-              targetCell = cell as MarkdownCell;
-              targetCellIndex = i;
-              break;
-            }
-          }
-        }
-        if (targetCell) {
-          break;
-        }
+    const url = await resolveImageUrl(panel, cell, image.src);
+    return url !== null && normalizeUrl(url) === renderedUrl;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Map a rendered image of a markdown cell back to its span in the cell source.
+ *
+ * The image is identified by its URL, or attachment, and when the cell shows
+ * the same image several times, by its position among them. When no image of
+ * the source matches, e.g. an unresolvable URL, the position among the
+ * rendered images is used if the cell renders exactly its images.
+ */
+async function findRenderedImageSource(
+  panel: NotebookPanel,
+  imageElement: HTMLImageElement
+): Promise<IAltTextCandidate | null> {
+  const cellIndex = panel.content.widgets.findIndex(cell =>
+    cell.node.contains(imageElement)
+  );
+  const cell = panel.content.widgets[cellIndex];
+  if (!cell || cell.model.type !== 'markdown') {
+    return null;
+  }
+
+  const rendered = Array.from(
+    cell.node.querySelectorAll<HTMLImageElement>('.jp-MarkdownOutput img')
+  );
+  const position = rendered.indexOf(imageElement);
+  if (position === -1) {
+    return null;
+  }
+  const renderedUrl = normalizeUrl(imageElement.src);
+  const occurrence = rendered
+    .slice(0, position)
+    .filter(image => normalizeUrl(image.src) === renderedUrl).length;
+
+  const source = cell.model.sharedModel.getSource();
+  const images = findMarkdownImages(source);
+  const matches: number[] = [];
+  for (let index = 0; index < images.length; index++) {
+    if (await isRenderedFrom(panel, cell.model, images[index], renderedUrl)) {
+      matches.push(index);
+    }
+  }
+
+  let imageIndex = -1;
+  if (matches.length > 0) {
+    imageIndex = matches[occurrence] ?? -1;
+  } else if (rendered.length === images.length) {
+    imageIndex = position;
+  }
+  if (imageIndex === -1) {
+    return null;
+  }
+  return {
+    cellId: cell.model.id,
+    cellIndex,
+    image: images[imageIndex],
+    imageIndex,
+    source,
+    url: imageElement.src
+  };
+}
+
+/**
+ * Find the images of the markdown cells of a notebook which have empty or
+ * placeholder alt text.
+ */
+async function findImagesWithoutAltText(
+  panel: NotebookPanel
+): Promise<IAltTextCandidate[]> {
+  const candidates: IAltTextCandidate[] = [];
+  const cells = panel.content.widgets;
+  for (let cellIndex = 0; cellIndex < cells.length; cellIndex++) {
+    const cell = cells[cellIndex].model;
+    if (cell.type !== 'markdown') {
+      continue;
+    }
+    const source = cell.sharedModel.getSource();
+    const images = findMarkdownImages(source);
+    for (let imageIndex = 0; imageIndex < images.length; imageIndex++) {
+      const image = images[imageIndex];
+      if (!image.src || !isPlaceholderAltText(image.alt, image.src)) {
+        continue;
+      }
+      let url: string | null = null;
+      let error: string | undefined;
+      try {
+        url = await resolveImageUrl(panel, cell, image.src);
+      } catch (reason) {
+        error = reason instanceof Error ? reason.message : String(reason);
       }
+      candidates.push({
+        cellId: cell.id,
+        cellIndex,
+        image,
+        imageIndex,
+        source,
+        url: url ?? '',
+        error: url ? error : (error ?? `Image not found: ${image.src}`)
+      });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * An alt text written to a cell source, kept to undo it.
+ */
+interface IAltTextChange {
+  sharedModel: ICellModel['sharedModel'];
+  start: number;
+  text: string;
+  previous: string;
+}
+
+/**
+ * Write accepted alt texts back to the cell sources, replacing only the alt
+ * text of each image.
+ *
+ * Images are found again in the current sources, so the cells can be edited
+ * while the alt texts are generated; an image which moved or changed in the
+ * meantime is skipped. Returns the changes made, in order.
+ */
+function applyAltTexts(
+  panel: NotebookPanel,
+  edits: IAltTextEdit[]
+): IAltTextChange[] {
+  const changes: IAltTextChange[] = [];
+  for (const cell of panel.content.widgets) {
+    const cellEdits = edits
+      .filter(edit => edit.candidate.cellId === cell.model.id)
+      .sort((a, b) => b.candidate.imageIndex - a.candidate.imageIndex);
+    if (cellEdits.length === 0) {
+      continue;
+    }
 
-      if (!targetCell) {
-        return false;
+    const sharedModel = cell.model.sharedModel;
+    const images = findMarkdownImages(sharedModel.getSource());
+    // From the last image, so the offsets of the previous ones stay valid.
+    for (const { candidate, altText } of cellEdits) {
+      const image = images[candidate.imageIndex];
+      if (
+        !image ||
+        image.src !== candidate.image.src ||
+        image.alt !== candidate.image.alt
+      ) {
+        continue;
       }
+      const source = sharedModel.getSource();
+      const edit = getImageAltTextEdit(source, image, altText);
+      changes.push({
+        sharedModel,
+        start: edit.start,
+        text: edit.text,
+        previous: source.slice(edit.start, edit.end)
+      });
+      sharedModel.updateSource(edit.start, edit.end, edit.text);
+    }
+  }
+  return changes;
+}
 
-      // Set the target cell as active.
-      notebook.activeCellIndex = targetCellIndex;
-      activeCell = targetCell;
+/**
+ * Restore the alt texts replaced by `applyAltTexts`, unless the cells changed
+ * since. Returns the number of changes undone.
+ */
+function undoAltTexts(changes: IAltTextChange[]): number {
+  let undone = 0;
+  for (const { sharedModel, start, text, previous } of [...changes].reverse()) {
+    if (
+      sharedModel.isDisposed ||
+      sharedModel.getSource().slice(start, start + text.length) !== text
+    ) {
+      continue;
     }
+    sharedModel.updateSource(start, start + text.length, previous);
+    undone++;
+  }
+  return undone;
+}
 
-    const cellModel = activeCell.model;
-    const sharedModel = cellModel.sharedModel;
+/**
+ * Notify about applied alt texts, with an action to undo them.
+ */
+function notifyAltTextChanges(
+  message: string,
+  type: 'success' | 'warning',
+  changes: IAltTextChange[]
+): void {
+  Notification.emit(message, type, {
+    autoClose: 10000,
+    actions:
+      changes.length > 0
+        ? [
+            {
+              label: 'Undo',
+              caption: 'Restore the previous alt text',
+              callback: () => {
+                const kept = changes.length - undoAltTexts(changes);
+                if (kept > 0) {
+                  Notification.emit(
+                    `Could not undo ${kept} alt text${kept > 1 ? 's' : ''} because the cells changed`,
+                    'warning',
+                    { autoClose: 5000 }
+                  );
+                }
+              }
+            }
+          ]
+        : []
+  });
+}
+
+/**
+ * The body of the dialog reviewing generated alt texts, where each suggestion
+ * can be edited and accepted or left out.
+ */
+class AltTextReview extends Widget {
+  constructor(candidates: IAltTextCandidate[]) {
+    super();
+    this.addClass('jp-browser-ai-alt-text-review');
 
-    const currentContent = sharedModel.getSource();
+    for (const candidate of candidates) {
+      const item = document.createElement('div');
+      item.className = 'jp-browser-ai-alt-text-review-item';
 
-    // Find all markdown images: ![alt text](url)
-    const imageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
-    let matchCount = 0;
-    let foundMatch = false;
+      const preview = document.createElement('img');
+      preview.className = 'jp-browser-ai-alt-text-review-preview';
+      preview.src = candidate.url;
+      preview.alt = '';
+      item.appendChild(preview);
 
-    const updatedContent = currentContent.replace(
-      imageRegex,
-      (match: string, altTextMatch: string, imageUrl: string) => {
-        matchCount++;
-        // Replace the first image that has empty alt text, or if there's only one image, replace it.
-        if (!foundMatch && (altTextMatch.trim() === '' || matchCount === 1)) {
-          foundMatch = true;
-          return `![${altText}](${imageUrl})`;
-        }
+      const fields = document.createElement('div');
+      fields.className = 'jp-browser-ai-alt-text-review-fields';
+
+      const heading = document.createElement('div');
+      heading.className = 'jp-browser-ai-alt-text-review-heading';
+      heading.textContent = `Cell ${candidate.cellIndex + 1}: ${candidate.image.src}`;
+      heading.title = candidate.image.src;
+      fields.appendChild(heading);
+
+      const current = document.createElement('div');
+      current.className = 'jp-browser-ai-alt-text-review-details';
+      current.textContent = candidate.image.alt.trim()
+        ? `Current alt text: ${candidate.image.alt}`
+        : 'No alt text';
+      fields.appendChild(current);
 
-        return match;
+      const textarea = document.createElement('textarea');
+      textarea.className = 'jp-mod-styled jp-browser-ai-alt-text-review-input';
+      textarea.rows = 2;
+      textarea.value = candidate.suggestion ?? '';
+      textarea.placeholder = 'Describe the image';
+      fields.appendChild(textarea);
+
+      if (candidate.error) {
+        const error = document.createElement('div');
+        error.className = 'jp-browser-ai-alt-text-review-error';
+        error.textContent = `Failed to generate alt text: ${candidate.error}`;
+        fields.appendChild(error);
       }
-    );
 
-    // Only update if we actually made changes.
-    if (updatedContent !== currentContent) {
-      sharedModel.setSource(updatedContent);
-      return true;
+      // The change of the cell source, updated as the alt text is edited.
+      const diff = document.createElement('pre');
+      diff.className = 'jp-browser-ai-alt-text-review-diff';
+      const removed = document.createElement('div');
+      removed.className = 'jp-browser-ai-alt-text-review-removed';
+      const added = document.createElement('div');
+      added.className = 'jp-browser-ai-alt-text-review-added';
+      diff.append(removed, added);
+      fields.appendChild(diff);
+
+      const label = document.createElement('label');
+      label.className = 'jp-browser-ai-alt-text-review-details';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      label.append(checkbox, ' Apply');
+      fields.appendChild(label);
+
+      const update = () => {
+        const [before, after] = previewImageAltText(
+          candidate.source,
+          candidate.image,
+          textarea.value
+        );
+        removed.textContent = `- ${before}`;
+        added.textContent = `+ ${after}`;
+        diff.hidden = textarea.value.trim() === '';
+        checkbox.checked = textarea.value.trim() !== '';
+      };
+      update();
+      textarea.addEventListener('input', update);
+
+      item.appendChild(fields);
+      this.node.appendChild(item);
+      this._entries.push({ candidate, textarea, checkbox });
     }
+  }
 
-    return false;
-  } catch (error) {
-    console.error('Failed to update image alt text:', error);
-    return false;
+  /**
+   * The alt texts to write back to the cells.
+   */
+  getValue(): IAltTextEdit[] {
+    return this._entries
+      .filter(
+        ({ textarea, checkbox }) =>
+          checkbox.checked && textarea.value.trim() !== ''
+      )
+      .map(({ candidate, textarea }) => ({
+        candidate,
+        altText: textarea.value
+      }));
   }
+
+  private _entries: Array<{
+    candidate: IAltTextCandidate;
+    textarea: HTMLTextAreaElement;
+    checkbox: HTMLInputElement;
+  }> = [];
 }
 
 /**
- * A plugin providing a context menu item to generate alt text for images using Chrome Built-in AI.
+ * A plugin providing a context menu item to generate alt text for images using
+ * Chrome Built-in AI, or a Transformers.js vision model in other browsers.
  */
 export const chromeAIImagePlugin: JupyterFrontEndPlugin<void> = {
   id: 'jupyterlab-browser-ai:alt-text-generator',
   description: 'Chrome AI Alt Text Generator Context Menu',
   autoStart: true,
   requires: [INotebookTracker],
-  activate: (app: JupyterFrontEnd, notebookTracker: INotebookTracker) => {
-    if (!doesBrowserSupportBrowserAI()) {
-      console.log('Chrome Built-in AI not supported in this browser');
+  optional: [
+    IBrowserAIBackendRegistry,
+    ISettingRegistry,
+    ICommandPalette,
+    IRenderMimeRegistry
+  ],
+  activate: (
+    app: JupyterFrontEnd,
+    notebookTracker: INotebookTracker,
+    backendRegistry: IBrowserAIBackendRegistry | null,
+    settingRegistry: ISettingRegistry | null,
+    palette: ICommandPalette | null,
+    rendermime: IRenderMimeRegistry | null
+  ) => {
+    // Alt texts stored before are rendered even when they cannot be generated.
+    rendermime?.addFactory(
+      imageWithAltTextRendererFactory,
+      (imageRendererFactory.defaultRank ?? 90) - 1
+    );
+
+    const useChromeAI = doesBrowserSupportBrowserAI();
+    const transformersBackend = backendRegistry?.get('transformers-js');
+    if (!useChromeAI && !transformersBackend?.isSupported()) {
+      console.log(
+        'Neither Chrome Built-in AI nor Transformers.js is supported in this browser'
+      );
+      // Hide the notebook toolbar item declared in the settings schema.
+      app.commands.addCommand(CommandIDs.generateNotebookAltText, {
+        label: 'Generate Alt Text for Notebook Images',
+        caption:
+          'Neither Chrome Built-in AI nor Transformers.js is supported in this browser',
+        icon: imageIcon,
+        isEnabled: () => false,
+        isVisible: () => false,
+        execute: () => undefined
+      });
       return;
     }
 
     const altTextGenerator = new ChromeAIAltTextGenerator();
+    let altTextModelName = DEFAULT_ALT_TEXT_MODEL;
+    let insertOutputCaptions = false;
+
+    if (settingRegistry) {
+      settingRegistry
+        .load(PLUGIN_ID)
+        .then(settings => {
+          const updateSettings = () => {
+            const composite = settings.composite as Record<string, unknown>;
+            altTextModelName = getAltTextModelName(composite);
+            insertOutputCaptions = getAltTextOutputCaptions(composite);
+          };
+          updateSettings();
+          settings.changed.connect(updateSettings);
+        })
+        .catch(reason => {
+          console.error(
+            'Failed to load alt text settings for jupyterlab-browser-ai.',
+            reason
+          );
+        });
+    }
+
+    const getModel = (): LanguageModelV3 => {
+      if (useChromeAI) {
+        return browserAI();
+      }
+      if (!isTransformersVisionModel(altTextModelName)) {
+        throw new Error(
+          `${altTextModelName} is not a vision model. Set "isVisionModel" for it in the "transformersJsModels" setting.`
+        );
+      }
+      return backendRegistry!.getLanguageModel(
+        'transformers-js',
+        altTextModelName
+      );
+    };
+    const source = useChromeAI ? 'ChromeAI' : 'Transformers.js';
 
     const isImage = (node: HTMLElement) => node.tagName === 'IMG';
 
     app.commands.addCommand(CommandIDs.generateAltText, {
-      label: 'Generate Alt Text with ChromeAI',
+      label: `Generate Alt Text with ${source}`,
       icon: imageIcon,
       execute: async () => {
         const node = app.contextMenuHitTest(isImage);
@@ -165,29 +776,95 @@ export const chromeAIImagePlugin: JupyterFrontEndPlugin<void> = {
           return;
         }
 
-        const imageSrc = (node as HTMLImageElement).src;
+        const imageElement = node as HTMLImageElement;
+        const imageSrc = imageElement.src;
+        const output = findImageOutput(notebookTracker, imageElement);
+        const outputCell = output?.panel.content.widgets[output.cellIndex];
+        // Map the image to the cell source before the cell can be re-rendered.
+        const panel = notebookTracker.find(widget =>
+          widget.node.contains(imageElement)
+        );
+        const markdownImage =
+          panel && !output
+            ? await findRenderedImageSource(panel, imageElement)
+            : null;
 
         const notificationId = Notification.emit(
-          'Generating alt text with ChromeAI...',
+          `Generating alt text with ${source}...`,
           'in-progress',
           { autoClose: false }
         );
 
         try {
-          const altText = await altTextGenerator.generateAltText(imageSrc);
-
-          // Try to find and update the markdown cell containing this image.
-          const updatedCell = await updateImageAltText(
-            node as HTMLImageElement,
-            altText,
-            notebookTracker
+          const altText = await altTextGenerator.generateAltText(
+            imageSrc,
+            getModel()
           );
 
+          if (panel && markdownImage) {
+            Notification.dismiss(notificationId);
+            const result = await showDialog({
+              title: 'Apply Alt Text',
+              body: new AltTextReview([
+                { ...markdownImage, suggestion: altText }
+              ]),
+              buttons: [
+                Dialog.cancelButton(),
+                Dialog.okButton({ label: 'Apply' })
+              ],
+              focusNodeSelector: 'textarea'
+            });
+            const edits = result.value;
+            if (!result.button.accept || !edits || edits.length === 0) {
+              return;
+            }
+
+            const changes = applyAltTexts(panel, edits);
+            if (changes.length > 0) {
+              notifyAltTextChanges(
+                'Alt text applied to the markdown cell',
+                'success',
+                changes
+              );
+            } else {
+              Notification.emit(
+                'The image changed while the alt text was generated - copied to clipboard',
+                'warning',
+                { autoClose: 5000 }
+              );
+              if (navigator.clipboard) {
+                await navigator.clipboard.writeText(edits[0].altText);
+              }
+            }
+            return;
+          }
+
+          let message = 'Alt text generated - copied to clipboard';
+          if (output && outputCell) {
+            // Find the output again, in case the cell ran in the meantime.
+            const image = findOutputImage(
+              (outputCell.model as ICodeCellModel).outputs,
+              imageSrc
+            );
+            const cellIndex = output.panel.content.widgets.indexOf(outputCell);
+            if (image && cellIndex !== -1) {
+              setOutputImageAltText(
+                (outputCell.model as ICodeCellModel).outputs,
+                image,
+                altText
+              );
+              if (insertOutputCaptions) {
+                insertAltTextCaption(output.panel, cellIndex, image, altText);
+              }
+              message = insertOutputCaptions
+                ? 'Alt text generated and added to the output and its caption'
+                : 'Alt text generated and added to the output';
+            }
+          }
+
           Notification.update({
             id: notificationId,
-            message: updatedCell
-              ? 'Alt text generated and applied to markdown cell'
-              : 'Alt text generated - copied to clipboard',
+            message,
             type: 'success',
             autoClose: 3000
           });
@@ -197,7 +874,7 @@ export const chromeAIImagePlugin: JupyterFrontEndPlugin<void> = {
             await navigator.clipboard.writeText(altText);
           }
         } catch (error) {
-          console.error('ChromeAI Alt Text Generation Error:', error);
+          console.error(`${source} Alt Text Generation Error:`, error);
           Notification.update({
             id: notificationId,
             message: `Failed to generate alt text: ${
@@ -216,6 +893,133 @@ export const chromeAIImagePlugin: JupyterFrontEndPlugin<void> = {
       }
     });
 
+    app.commands.addCommand(CommandIDs.generateNotebookAltText, {
+      label: `Generate Alt Text for Notebook Images with ${source}`,
+      caption:
+        'Generate alt text for the images of the markdown cells which have none',
+      icon: imageIcon,
+      execute: async () => {
+        const panel = notebookTracker.currentWidget;
+        if (!panel) {
+          Notification.emit('No notebook open', 'warning');
+          return;
+        }
+
+        const candidates = await findImagesWithoutAltText(panel);
+        if (candidates.length === 0) {
+          Notification.emit('All images already have alt text', 'info', {
+            autoClose: 3000
+          });
+          return;
+        }
+
+        const total = candidates.length;
+        const controller = new AbortController();
+        const notificationId = Notification.emit(
+          `Generating alt text for ${total} image${total > 1 ? 's' : ''} with ${source}...`,
+          'in-progress',
+          {
+            autoClose: false,
+            progress: 0,
+            actions: [
+              {
+                label: 'Cancel',
+                caption: 'Stop and review the alt texts generated so far',
+                callback: () => controller.abort()
+              }
+            ]
+          }
+        );
+
+        try {
+          const model = getModel();
+          for (let i = 0; i < total; i++) {
+            const candidate = candidates[i];
+            if (controller.signal.aborted) {
+              break;
+            }
+            if (!candidate.error) {
+              try {
+                candidate.suggestion = await altTextGenerator.generateAltText(
+                  candidate.url,
+                  model,
+                  controller.signal
+                );
+              } catch (error) {
+                if (controller.signal.aborted) {
+                  break;
+                }
+                candidate.error =
+                  error instanceof Error ? error.message : 'Unknown error';
+              }
+            }
+            Notification.update({
+              id: notificationId,
+              message: `Generating alt text with ${source}: ${i + 1} of ${total} images`,
+              progress: (i + 1) / total
+            });
+          }
+        } catch (error) {
+          console.error(`${source} Alt Text Generation Error:`, error);
+          Notification.update({
+            id: notificationId,
+            message: `Failed to generate alt text: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+            type: 'error',
+            autoClose: 5000,
+            actions: []
+          });
+          return;
+        }
+        Notification.dismiss(notificationId);
+
+        // Images not reached before cancelling are left out of the review.
+        const reviewed = candidates.filter(
+          candidate => candidate.suggestion !== undefined || candidate.error
+        );
+        if (reviewed.length === 0) {
+          return;
+        }
+
+        const result = await showDialog({
+          title: 'Review Alt Text',
+          body: new AltTextReview(reviewed),
+          buttons: [Dialog.cancelButton(), Dialog.okButton({ label: 'Apply' })],
+          focusNodeSelector: 'textarea'
+        });
+        const edits = result.value;
+        if (!result.button.accept || !edits || edits.length === 0) {
+          return;
+        }
+
+        const changes = applyAltTexts(panel, edits);
+        const applied = changes.length;
+        const skipped = edits.length - applied;
+        notifyAltTextChanges(
+          `Updated the alt text of ${applied} image${applied === 1 ? '' : 's'}` +
+            (skipped > 0
+              ? `; ${skipped} skipped because the cells changed meanwhile`
+              : ''),
+          skipped > 0 ? 'warning' : 'success',
+          changes
+        );
+      },
+      describedBy: {
+        args: {
+          type: 'object',
+          properties: {}
+        }
+      }
+    });
+
+    if (palette) {
+      palette.addItem({
+        command: CommandIDs.generateNotebookAltText,
+        category: 'Notebook Operations'
+      });
+    }
+
     const options = { selector: 'img', rank: 1 };
     app.contextMenu.addItem({
       command: CommandIDs.generateAltText,
@@ -0,0 +1,137 @@
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions
+} from '@ai-sdk/provider';
+
+import { browserAI, type BrowserAIChatSettings } from '@browser-ai/core';
+
+/**
+ * Options of the Chrome built-in AI chat sessions, from the plugin settings.
+ */
+export interface IChromeAIOptions {
+  settings: BrowserAIChatSettings;
+  systemPrompt: string | null;
+}
+
+/**
+ * The media a chat can attach to a message, besides text.
+ */
+export const CHROME_AI_MEDIA_INPUTS = ['image', 'audio'] as const;
+
+function getStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.trim())
+        .filter(item => item !== '')
+    : [];
+}
+
+function getNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+/**
+ * Build the Chrome built-in AI session options from the plugin settings
+ * composite.
+ */
+export function getChromeAIOptions(
+  composite: Record<string, unknown>
+): IChromeAIOptions {
+  const settings: BrowserAIChatSettings = {};
+
+  // The Prompt API rejects sessions setting only one of them.
+  const temperature = getNumber(composite.chromeAITemperature);
+  const topK = getNumber(composite.chromeAITopK);
+  if (temperature !== undefined && topK !== undefined) {
+    settings.temperature = temperature;
+    settings.topK = Math.floor(topK);
+  } else if (temperature !== undefined || topK !== undefined) {
+    console.warn(
+      'Ignoring "chromeAITemperature" and "chromeAITopK": Chrome built-in AI requires both to be set.'
+    );
+  }
+
+  // Sessions are created once per chat, so the media a chat may attach later
+  // have to be declared upfront.
+  const inputLanguages = getStringList(composite.chromeAIInputLanguages);
+  const mediaInputs = getStringList(composite.chromeAIMediaInputs).filter(
+    (input): input is (typeof CHROME_AI_MEDIA_INPUTS)[number] =>
+      (CHROME_AI_MEDIA_INPUTS as readonly string[]).includes(input)
+  );
+  if (inputLanguages.length > 0 || mediaInputs.length > 0) {
+    settings.expectedInputs = [
+      inputLanguages.length > 0
+        ? { type: 'text', languages: inputLanguages }
+        : { type: 'text' },
+      ...mediaInputs.map(type => ({ type }))
+    ];
+  }
+
+  const outputLanguages = getStringList(composite.chromeAIOutputLanguages);
+  if (outputLanguages.length > 0) {
+    settings.expectedOutputs = [{ type: 'text', languages: outputLanguages }];
+  }
+
+  const systemPrompt =
+    typeof composite.chromeAISystemPrompt === 'string' &&
+    composite.chromeAISystemPrompt.trim() !== ''
+      ? composite.chromeAISystemPrompt.trim()
+      : null;
+
+  return { settings, systemPrompt };
+}
+
+/**
+ * Prepend the configured system prompt to the one sent by the chat. The
+ * Prompt API only keeps a single system message per session.
+ */
+function withSystemPrompt(
+  callOptions: LanguageModelV3CallOptions,
+  systemPrompt: string
+): LanguageModelV3CallOptions {
+  const systemMessages: string[] = [systemPrompt];
+  const messages: LanguageModelV3CallOptions['prompt'] = [];
+  for (const message of callOptions.prompt) {
+    if (message.role === 'system') {
+      systemMessages.push(message.content);
+    } else {
+      messages.push(message);
+    }
+  }
+
+  return {
+    ...callOptions,
+    prompt: [
+      { role: 'system', content: systemMessages.join('\n\n') },
+      ...messages
+    ]
+  };
+}
+
+/**
+ * Create a Chrome built-in AI language model with the given options.
+ */
+export function createChromeAIModel(
+  options: IChromeAIOptions
+): LanguageModelV3 {
+  const model = browserAI('text', options.settings);
+
+  const { systemPrompt } = options;
+  if (!systemPrompt) {
+    return model;
+  }
+
+  return {
+    specificationVersion: 'v3',
+    provider: model.provider,
+    modelId: model.modelId,
+    supportedUrls: model.supportedUrls,
+    doGenerate: callOptions =>
+      model.doGenerate(withSystemPrompt(callOptions, systemPrompt)),
+    doStream: callOptions =>
+      model.doStream(withSystemPrompt(callOptions, systemPrompt))
+  };
+}
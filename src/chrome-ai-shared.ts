@@ -1,5 +1,6 @@
 export const CommandIDs = {
   generateAltText: 'chrome-ai:generate-alt-text',
+  generateNotebookAltText: 'chrome-ai:generate-notebook-alt-text',
   generateTranscript: 'chrome-ai:generate-transcript',
   proofreadNotebook: 'chrome-ai:proofread-notebook'
 } as const;
@@ -0,0 +1,253 @@
+import type {
+  LanguageModelV3CallOptions,
+  LanguageModelV3Message,
+  LanguageModelV3Prompt,
+  LanguageModelV3ToolResultOutput
+} from '@ai-sdk/provider';
+
+/**
+ * Prompts are measured without the tokenizer of the model, which runs in its
+ * worker. Three characters per token overestimates English text and code, so
+ * trimmed prompts fit.
+ */
+const CHARACTERS_PER_TOKEN = 3;
+
+/**
+ * The tokens of the chat template around each message.
+ */
+const MESSAGE_OVERHEAD_TOKENS = 8;
+
+/**
+ * The tokens kept for the response when the call does not limit them.
+ */
+const MAX_RESERVED_OUTPUT_TOKENS = 1024;
+
+/**
+ * The smallest part of a text worth keeping when truncating it.
+ */
+const MIN_TRUNCATED_TEXT_LENGTH = 200;
+
+/**
+ * How a prompt was changed to fit the context window of a model.
+ */
+export interface IFittedPrompt {
+  prompt: LanguageModelV3Prompt;
+  /**
+   * The number of older messages left out.
+   */
+  droppedMessages: number;
+  /**
+   * The number of characters removed from the latest messages.
+   */
+  truncatedCharacters: number;
+}
+
+function estimateTokens(characters: number): number {
+  return Math.ceil(characters / CHARACTERS_PER_TOKEN);
+}
+
+function getToolResultLength(output: LanguageModelV3ToolResultOutput): number {
+  switch (output.type) {
+    case 'text':
+    case 'error-text':
+      return output.value.length;
+    case 'json':
+    case 'error-json':
+      return JSON.stringify(output.value).length;
+    case 'content':
+      return output.value.reduce(
+        (length, part) =>
+          length + (part.type === 'text' ? part.text.length : 0),
+        0
+      );
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Estimate the tokens of a message. Images and other files are not counted.
+ */
+function estimateMessageTokens(message: LanguageModelV3Message): number {
+  if (message.role === 'system') {
+    return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content.length);
+  }
+
+  let characters = 0;
+  for (const part of message.content) {
+    switch (part.type) {
+      case 'text':
+      case 'reasoning':
+        characters += part.text.length;
+        break;
+      case 'tool-call':
+        characters +=
+          part.toolName.length +
+          (typeof part.input === 'string'
+            ? part.input.length
+            : JSON.stringify(part.input).length);
+        break;
+      case 'tool-result':
+        characters += getToolResultLength(part.output);
+        break;
+    }
+  }
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(characters);
+}
+
+function estimatePromptTokens(messages: LanguageModelV3Message[]): number {
+  return messages.reduce(
+    (total, message) => total + estimateMessageTokens(message),
+    0
+  );
+}
+
+/**
+ * Split the conversation in turns, each starting with a user message, so tool
+ * calls are never separated from their results.
+ */
+function getTurns(
+  messages: LanguageModelV3Message[]
+): LanguageModelV3Message[][] {
+  const turns: LanguageModelV3Message[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Keep the beginning and the end of a text, which usually hold the question
+ * and the most recent content.
+ */
+function truncateText(text: string, length: number): string {
+  const removed = text.length - length;
+  const head = Math.ceil(length * (2 / 3));
+  return `${text.slice(0, head)}\n\n[... ${removed} characters truncated to fit the context window ...]\n\n${text.slice(text.length - (length - head))}`;
+}
+
+/**
+ * Truncate the longest texts of the latest turn, e.g. attached notebook
+ * content or large tool results, to remove about `excessTokens`.
+ *
+ * Returns the number of characters removed.
+ */
+function truncateTurn(
+  turn: LanguageModelV3Message[],
+  excessTokens: number
+): number {
+  // The texts of the turn, as setters replacing them in place.
+  const texts: Array<{ text: string; set: (text: string) => void }> = [];
+  turn.forEach((message, messageIndex) => {
+    if (message.role === 'system') {
+      return;
+    }
+    const content = [...message.content];
+    turn[messageIndex] = { ...message, content } as LanguageModelV3Message;
+
+    content.forEach((part, partIndex) => {
+      if (part.type === 'text') {
+        texts.push({
+          text: part.text,
+          set: text => {
+            content[partIndex] = { ...part, text };
+          }
+        });
+      } else if (
+        part.type === 'tool-result' &&
+        part.output.type !== 'execution-denied' &&
+        part.output.type !== 'content'
+      ) {
+        const { output } = part;
+        const isError =
+          output.type === 'error-text' || output.type === 'error-json';
+        texts.push({
+          text:
+            output.type === 'text' || output.type === 'error-text'
+              ? output.value
+              : JSON.stringify(output.value),
+          set: text => {
+            content[partIndex] = {
+              ...part,
+              output: { type: isError ? 'error-text' : 'text', value: text }
+            };
+          }
+        });
+      }
+    });
+  });
+
+  let excessCharacters = excessTokens * CHARACTERS_PER_TOKEN;
+  let removed = 0;
+  for (const entry of texts.sort((a, b) => b.text.length - a.text.length)) {
+    if (excessCharacters <= 0) {
+      break;
+    }
+    const length = Math.max(
+      MIN_TRUNCATED_TEXT_LENGTH,
+      entry.text.length - excessCharacters
+    );
+    if (length >= entry.text.length) {
+      continue;
+    }
+    entry.set(truncateText(entry.text, length));
+    excessCharacters -= entry.text.length - length;
+    removed += entry.text.length - length;
+  }
+  return removed;
+}
+
+/**
+ * Fit a prompt in the context window of a model, keeping room for the
+ * response and the tool definitions.
+ *
+ * System messages are always kept. Older turns of the conversation are left
+ * out first; when the latest turn alone is too long, its longest texts are
+ * truncated.
+ */
+export function fitPromptToContextWindow(
+  callOptions: LanguageModelV3CallOptions,
+  contextWindow: number
+): IFittedPrompt {
+  const { prompt } = callOptions;
+  const reservedTokens =
+    callOptions.maxOutputTokens ??
+    Math.min(MAX_RESERVED_OUTPUT_TOKENS, Math.floor(contextWindow / 4));
+  const toolTokens = callOptions.tools?.length
+    ? estimateTokens(JSON.stringify(callOptions.tools).length)
+    : 0;
+
+  const systemMessages = prompt.filter(message => message.role === 'system');
+  const budget =
+    contextWindow -
+    reservedTokens -
+    toolTokens -
+    estimatePromptTokens(systemMessages);
+
+  const turns = getTurns(prompt.filter(message => message.role !== 'system'));
+  const fits = () => estimatePromptTokens(turns.flat()) <= budget;
+  if (fits()) {
+    return { prompt, droppedMessages: 0, truncatedCharacters: 0 };
+  }
+
+  let droppedMessages = 0;
+  while (turns.length > 1 && !fits()) {
+    droppedMessages += turns.shift()!.length;
+  }
+
+  let truncatedCharacters = 0;
+  if (!fits() && turns.length > 0) {
+    const excessTokens = estimatePromptTokens(turns[0]) - Math.max(budget, 0);
+    truncatedCharacters = truncateTurn(turns[0], excessTokens);
+  }
+
+  return {
+    prompt: [...systemMessages, ...turns.flat()],
+    droppedMessages,
+    truncatedCharacters
+  };
+}
@@ -0,0 +1,368 @@
+import {
+  JupyterFrontEnd,
+  JupyterFrontEndPlugin
+} from '@jupyterlab/application';
+
+import {
+  Clipboard,
+  ICommandPalette,
+  MainAreaWidget,
+  Notification
+} from '@jupyterlab/apputils';
+import {
+  copyIcon,
+  infoIcon,
+  refreshIcon,
+  ToolbarButton
+} from '@jupyterlab/ui-components';
+
+import { Widget } from '@lumino/widgets';
+
+import { doesBrowserSupportBrowserAI } from '@browser-ai/core';
+
+import { BrowserAICommandIDs, getBackendLabel } from './browser-ai-shared';
+import { getLoadedModels } from './model-lifecycle';
+import { formatBytes, getStorageEstimate } from './model-storage';
+import { IBrowserAIBackendRegistry } from './tokens';
+
+/**
+ * An error recorded while initializing an in-browser model or API.
+ */
+export interface IRecordedError {
+  time: number;
+  source: string;
+  message: string;
+}
+
+const MAX_RECORDED_ERRORS = 20;
+const recordedErrors: IRecordedError[] = [];
+
+/**
+ * Keep an initialization error so it shows in the diagnostics report.
+ */
+export function recordInitializationError(source: string, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  recordedErrors.push({ time: Date.now(), source, message });
+  if (recordedErrors.length > MAX_RECORDED_ERRORS) {
+    recordedErrors.shift();
+  }
+}
+
+/**
+ * Minimal WebGPU adapter shape, to avoid depending on the WebGPU typings.
+ */
+interface IGPUAdapterLike {
+  features: { has(feature: string): boolean; values(): Iterable<string> };
+  limits: Record<string, number | undefined>;
+  info?: {
+    vendor?: string;
+    architecture?: string;
+    device?: string;
+    description?: string;
+  };
+}
+
+interface IGPULike {
+  requestAdapter(): Promise<IGPUAdapterLike | null>;
+}
+
+type DiagnosticsSection = [title: string, rows: Array<[string, string]>];
+
+async function getChromeAPIAvailability(
+  api: { availability(): Promise<Availability> } | undefined
+): Promise<string> {
+  if (!api) {
+    return 'not supported';
+  }
+
+  try {
+    return await api.availability();
+  } catch (error) {
+    return `error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+interface IGlobalAPI {
+  availability(): Promise<Availability>;
+}
+
+function getGlobalAPI(name: string): IGlobalAPI | undefined {
+  return typeof window !== 'undefined'
+    ? (window as unknown as Record<string, IGlobalAPI | undefined>)[name]
+    : undefined;
+}
+
+async function collectBackendRows(
+  backendRegistry: IBrowserAIBackendRegistry | null
+): Promise<Array<[string, string]>> {
+  const supported = (value: boolean) => (value ? 'supported' : 'not supported');
+
+  return [
+    ['Chrome Built-in AI', supported(doesBrowserSupportBrowserAI())],
+    // The built-in backends and the backends of other extensions.
+    ...(backendRegistry?.backends ?? []).map((backend): [string, string] => [
+      backend.name,
+      supported(backend.isSupported())
+    ]),
+    ['WebAssembly', supported(typeof WebAssembly === 'object')],
+    [
+      'Cross-origin isolated (multithreaded WebAssembly)',
+      typeof crossOriginIsolated === 'boolean' && crossOriginIsolated
+        ? 'yes'
+        : 'no'
+    ]
+  ];
+}
+
+async function collectChromeAPIRows(): Promise<Array<[string, string]>> {
+  const rows: Array<[string, string]> = [];
+  for (const name of ['LanguageModel', 'Summarizer', 'Proofreader']) {
+    rows.push([name, await getChromeAPIAvailability(getGlobalAPI(name))]);
+  }
+  return rows;
+}
+
+async function collectWebGPURows(): Promise<Array<[string, string]>> {
+  const gpu = (navigator as unknown as { gpu?: IGPULike }).gpu;
+  if (!gpu) {
+    return [['WebGPU', 'not supported']];
+  }
+
+  let adapter: IGPUAdapterLike | null;
+  try {
+    adapter = await gpu.requestAdapter();
+  } catch (error) {
+    return [
+      [
+        'WebGPU adapter',
+        `error: ${error instanceof Error ? error.message : String(error)}`
+      ]
+    ];
+  }
+
+  if (!adapter) {
+    return [['WebGPU adapter', 'not available']];
+  }
+
+  const { info, limits, features } = adapter;
+  const limit = (name: string) =>
+    limits[name] !== undefined ? formatBytes(limits[name]!) : 'unknown';
+
+  return [
+    ['Vendor', info?.vendor || 'unknown'],
+    ['Architecture', info?.architecture || 'unknown'],
+    ['Device', info?.device || info?.description || 'unknown'],
+    ['shader-f16', features.has('shader-f16') ? 'yes' : 'no'],
+    ['Max buffer size', limit('maxBufferSize')],
+    ['Max storage buffer binding size', limit('maxStorageBufferBindingSize')],
+    ['Features', [...features.values()].sort().join(', ') || 'none']
+  ];
+}
+
+async function collectStorageRows(): Promise<Array<[string, string]>> {
+  const estimate = await getStorageEstimate();
+  if (!estimate) {
+    return [['Storage estimate', 'not available']];
+  }
+
+  let persisted = 'unknown';
+  if (navigator.storage?.persisted) {
+    persisted = (await navigator.storage.persisted()) ? 'yes' : 'no';
+  }
+
+  return [
+    ['Usage', formatBytes(estimate.usage ?? 0)],
+    ['Quota', formatBytes(estimate.quota ?? 0)],
+    ['Persistent', persisted]
+  ];
+}
+
+function collectLoadedModelRows(): Array<[string, string]> {
+  const loadedModels = getLoadedModels();
+  if (loadedModels.length === 0) {
+    return [['Loaded models', 'none']];
+  }
+
+  return loadedModels.map(model => [
+    `${model.modelName} (${getBackendLabel(model.backend)})`,
+    model.activeCalls > 0
+      ? 'generating'
+      : `last used ${new Date(model.lastUsed).toLocaleString()}`
+  ]);
+}
+
+function collectErrorRows(): Array<[string, string]> {
+  if (recordedErrors.length === 0) {
+    return [['Recent errors', 'none']];
+  }
+
+  return [...recordedErrors]
+    .reverse()
+    .map(error => [
+      `${new Date(error.time).toLocaleString()} ${error.source}`,
+      error.message
+    ]);
+}
+
+/**
+ * Collect the state of every in-browser AI backend and API.
+ */
+async function collectDiagnostics(
+  backendRegistry: IBrowserAIBackendRegistry | null
+): Promise<DiagnosticsSection[]> {
+  return [
+    ['Backends', await collectBackendRows(backendRegistry)],
+    ['Chrome built-in APIs', await collectChromeAPIRows()],
+    ['WebGPU', await collectWebGPURows()],
+    ['Storage', await collectStorageRows()],
+    ['Models', collectLoadedModelRows()],
+    ['Initialization errors', collectErrorRows()],
+    [
+      'Environment',
+      [
+        ['User agent', navigator.userAgent],
+        ['Generated', new Date().toISOString()]
+      ]
+    ]
+  ];
+}
+
+function formatDiagnostics(sections: DiagnosticsSection[]): string {
+  return sections
+    .map(
+      ([title, rows]) =>
+        `## ${title}\n\n${rows
+          .map(([label, value]) => `- ${label}: ${value}`)
+          .join('\n')}`
+    )
+    .join('\n\n');
+}
+
+/**
+ * A widget rendering the diagnostics report.
+ */
+class DiagnosticsReport extends Widget {
+  constructor(options: DiagnosticsReport.IOptions) {
+    super();
+    this._backendRegistry = options.backendRegistry;
+    this.addClass('jp-browser-ai-diagnostics');
+  }
+
+  /**
+   * The report as plain text, for bug reports.
+   */
+  get text(): string {
+    return this._text;
+  }
+
+  /**
+   * Collect the diagnostics again and render them.
+   */
+  async refresh(): Promise<void> {
+    const sections = await collectDiagnostics(this._backendRegistry);
+    this._text = formatDiagnostics(sections);
+
+    this.node.replaceChildren();
+    for (const [title, rows] of sections) {
+      const heading = document.createElement('h2');
+      heading.textContent = title;
+      this.node.appendChild(heading);
+
+      const table = document.createElement('table');
+      for (const [label, value] of rows) {
+        const row = table.insertRow();
+        const labelCell = document.createElement('th');
+        labelCell.textContent = label;
+        row.appendChild(labelCell);
+        row.insertCell().textContent = value;
+      }
+      this.node.appendChild(table);
+    }
+  }
+
+  private _backendRegistry: IBrowserAIBackendRegistry | null;
+  private _text = '';
+}
+
+namespace DiagnosticsReport {
+  export interface IOptions {
+    backendRegistry: IBrowserAIBackendRegistry | null;
+  }
+}
+
+/**
+ * A plugin providing a command to show the state of the in-browser AI
+ * backends, to help figure out why one of them is not available.
+ */
+export const diagnosticsPlugin: JupyterFrontEndPlugin<void> = {
+  id: 'jupyterlab-browser-ai:diagnostics',
+  description: 'Browser AI diagnostics report',
+  autoStart: true,
+  optional: [ICommandPalette, IBrowserAIBackendRegistry],
+  activate: (
+    app: JupyterFrontEnd,
+    palette: ICommandPalette | null,
+    backendRegistry: IBrowserAIBackendRegistry | null
+  ) => {
+    let widget: MainAreaWidget<DiagnosticsReport> | null = null;
+
+    app.commands.addCommand(BrowserAICommandIDs.showDiagnostics, {
+      label: 'Browser AI: Show Diagnostics',
+      caption: 'Show the availability of in-browser AI backends and APIs',
+      icon: infoIcon,
+      execute: async () => {
+        if (!widget || widget.isDisposed) {
+          const report = new DiagnosticsReport({ backendRegistry });
+          widget = new MainAreaWidget({ content: report });
+          widget.id = 'jp-browser-ai-diagnostics';
+          widget.title.label = 'Browser AI Diagnostics';
+          widget.title.icon = infoIcon;
+          widget.title.closable = true;
+
+          widget.toolbar.addItem(
+            'refresh',
+            new ToolbarButton({
+              icon: refreshIcon,
+              tooltip: 'Refresh',
+              onClick: () => {
+                void report.refresh();
+              }
+            })
+          );
+          widget.toolbar.addItem(
+            'copy',
+            new ToolbarButton({
+              icon: copyIcon,
+              label: 'Copy to Clipboard',
+              tooltip: 'Copy the report to the clipboard',
+              onClick: () => {
+                Clipboard.copyToSystem(report.text);
+                Notification.emit(
+                  'Diagnostics copied to clipboard',
+                  'success',
+                  {
+                    autoClose: 3000
+                  }
+                );
+              }
+            })
+          );
+        }
+
+        if (!widget.isAttached) {
+          app.shell.add(widget, 'main');
+        }
+        app.shell.activateById(widget.id);
+
+        await widget.content.refresh();
+      }
+    });
+
+    if (palette) {
+      palette.addItem({
+        command: BrowserAICommandIDs.showDiagnostics,
+        category: 'Browser AI'
+      });
+    }
+  }
+};
@@ -0,0 +1,52 @@
+import { TransformersJSEmbeddingModel } from '@browser-ai/transformers-js';
+
+import type {
+  EmbeddingsWorkerRequest,
+  EmbeddingsWorkerResponse
+} from './embeddings';
+import { applyTransformersEnvironment } from './transformers-environment';
+
+const models = new Map<string, TransformersJSEmbeddingModel>();
+
+function getModel(modelId: string): TransformersJSEmbeddingModel {
+  let model = models.get(modelId);
+  if (!model) {
+    model = new TransformersJSEmbeddingModel(modelId);
+    models.set(modelId, model);
+  }
+  return model;
+}
+
+function respond(message: EmbeddingsWorkerResponse): void {
+  self.postMessage(message);
+}
+
+async function handleRequest(request: EmbeddingsWorkerRequest): Promise<void> {
+  if (request.type === 'configure') {
+    applyTransformersEnvironment(request.data);
+    return;
+  }
+
+  try {
+    const model = getModel(request.modelId);
+    if (request.type === 'load') {
+      await model.createSessionWithProgress(progress => {
+        respond({ type: 'progress', id: request.id, progress });
+      });
+      respond({ type: 'done', id: request.id });
+    } else {
+      const result = await model.doEmbed({ values: request.values });
+      respond({ type: 'done', id: request.id, embeddings: result.embeddings });
+    }
+  } catch (error) {
+    respond({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+self.onmessage = (msg: MessageEvent<EmbeddingsWorkerRequest>) => {
+  void handleRequest(msg.data);
+};
@@ -0,0 +1,176 @@
+import type {
+  EmbeddingModelV3,
+  EmbeddingModelV3CallOptions,
+  EmbeddingModelV3Result
+} from '@ai-sdk/provider';
+
+import {
+  configureTransformersWorker,
+  type ITransformersConfigureMessage
+} from './transformers-models';
+
+/**
+ * A small sentence-embedding model with ONNX weights.
+ */
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Messages sent to the embeddings worker.
+ */
+export type EmbeddingsWorkerRequest =
+  | ITransformersConfigureMessage
+  | { type: 'load'; id: number; modelId: string }
+  | { type: 'embed'; id: number; modelId: string; values: string[] };
+
+/**
+ * Messages sent back by the embeddings worker.
+ */
+export type EmbeddingsWorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'done'; id: number; embeddings?: number[][] }
+  | { type: 'error'; id: number; message: string };
+
+interface IPendingRequest {
+  resolve: (embeddings: number[][] | undefined) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+const MAX_EMBEDDINGS_PER_CALL = 32;
+
+/**
+ * A Transformers.js feature-extraction model running in its own worker, so
+ * indexing files does not block the UI.
+ */
+export class TransformersEmbeddingModel implements EmbeddingModelV3 {
+  readonly specificationVersion = 'v3';
+  readonly provider = 'transformers-js';
+  readonly maxEmbeddingsPerCall = MAX_EMBEDDINGS_PER_CALL;
+  readonly supportsParallelCalls = false;
+
+  constructor(readonly modelId: string) {}
+
+  /**
+   * Download the model weights if needed and load the model.
+   */
+  load(onProgress?: (progress: number) => void): Promise<void> {
+    if (!this._loading) {
+      this._loading = this._request(
+        { type: 'load', modelId: this.modelId },
+        onProgress
+      ).then(() => undefined);
+      this._loading.catch(() => {
+        this._loading = null;
+      });
+    }
+    return this._loading;
+  }
+
+  async doEmbed(
+    options: EmbeddingModelV3CallOptions
+  ): Promise<EmbeddingModelV3Result> {
+    await this.load();
+    options.abortSignal?.throwIfAborted();
+
+    const embeddings = await this._request({
+      type: 'embed',
+      modelId: this.modelId,
+      values: options.values
+    });
+    return { embeddings: embeddings ?? [], warnings: [] };
+  }
+
+  /**
+   * Embed any number of values, in batches the worker accepts.
+   */
+  async embed(values: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < values.length; i += MAX_EMBEDDINGS_PER_CALL) {
+      const result = await this.doEmbed({
+        values: values.slice(i, i + MAX_EMBEDDINGS_PER_CALL)
+      });
+      embeddings.push(...result.embeddings);
+    }
+    return embeddings;
+  }
+
+  /**
+   * Terminate the worker and release the model.
+   */
+  dispose(): void {
+    this._worker?.terminate();
+    this._worker = null;
+    this._loading = null;
+    this._rejectPending(new Error(`${this.modelId} was unloaded`));
+  }
+
+  private _getWorker(): Worker {
+    if (!this._worker) {
+      const worker = new Worker(
+        new URL('./embeddings-worker.js', import.meta.url),
+        {
+          type: 'module'
+        }
+      );
+      configureTransformersWorker(worker);
+      worker.onmessage = (event: MessageEvent<EmbeddingsWorkerResponse>) => {
+        this._onMessage(event.data);
+      };
+      worker.onerror = event => {
+        // The worker is unusable: start over on the next request.
+        this.dispose();
+        console.error(`Embedding model "${this.modelId}" crashed`, event);
+      };
+      this._worker = worker;
+    }
+    return this._worker;
+  }
+
+  private _request(
+    message:
+      | { type: 'load'; modelId: string }
+      | { type: 'embed'; modelId: string; values: string[] },
+    onProgress?: (progress: number) => void
+  ): Promise<number[][] | undefined> {
+    const worker = this._getWorker();
+    const id = this._nextId++;
+    return new Promise((resolve, reject) => {
+      this._pending.set(id, { resolve, reject, onProgress });
+      const request: EmbeddingsWorkerRequest = { ...message, id };
+      worker.postMessage(request);
+    });
+  }
+
+  private _onMessage(message: EmbeddingsWorkerResponse): void {
+    const pending = this._pending.get(message.id);
+    if (!pending) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'progress':
+        pending.onProgress?.(message.progress);
+        break;
+      case 'done':
+        this._pending.delete(message.id);
+        pending.resolve(message.embeddings);
+        break;
+      case 'error':
+        this._pending.delete(message.id);
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  private _rejectPending(error: Error): void {
+    for (const pending of this._pending.values()) {
+      pending.reject(error);
+    }
+    this._pending.clear();
+  }
+
+  private _worker: Worker | null = null;
+  private _loading: Promise<void> | null = null;
+  private _nextId = 0;
+  private _pending = new Map<number, IPendingRequest>();
+}
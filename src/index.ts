@@ -3,11 +3,25 @@ import { chromeAIImagePlugin } from './chrome-ai-alt-text';
 import { chromeAIAudioPlugin } from './chrome-ai-audio-transcript';
 import { chromeAIProofreaderPlugin } from './chrome-ai-proofreader';
 import { chromeAISummarizerPlugin } from './chrome-ai-file-summarizer';
+import { modelStoragePlugin } from './model-storage';
+import { diagnosticsPlugin } from './diagnostics';
+import { modelActivityPlugin } from './model-activity';
+import { modelMetricsPlugin } from './model-metrics';
+import { modelSettingsPlugin } from './model-settings';
+import { semanticSearchPlugin } from './semantic-search';
+
+export * from './tokens';
 
 export default [
   providerRegistryPlugin,
   chromeAIImagePlugin,
   chromeAIAudioPlugin,
   chromeAIProofreaderPlugin,
-  chromeAISummarizerPlugin
+  chromeAISummarizerPlugin,
+  modelStoragePlugin,
+  diagnosticsPlugin,
+  modelActivityPlugin,
+  modelMetricsPlugin,
+  modelSettingsPlugin,
+  semanticSearchPlugin
 ];
@@ -0,0 +1,194 @@
+import { Wllama } from '@wllama/wllama/esm/index.js';
+
+import {
+  BACKEND_LABELS,
+  LLAMACPP_CUSTOM_MODELS_SETTING,
+  normalizeModelName
+} from './browser-ai-shared';
+import {
+  getLlamaCppModelSource,
+  getLlamaCppModelUrl,
+  LlamaCppLanguageModel
+} from './llamacpp-models';
+import { unloadModel } from './model-lifecycle';
+import {
+  clearBackendCache,
+  deleteCachedModel,
+  isModelCached,
+  listCachedModels,
+  verifyCachedModel
+} from './model-storage';
+import type { IBrowserAIBackend, IBrowserAIBackendModel } from './tokens';
+
+const WLLAMA_WASM_URL = new URL(
+  '@wllama/wllama/esm/wasm/wllama.wasm',
+  import.meta.url
+).href;
+
+/**
+ * The context size of models without a "contextSize" in the settings.
+ */
+const DEFAULT_CONTEXT_SIZE = 4096;
+
+/**
+ * Per-model context sizes from the "llamaCppModels" setting.
+ */
+let llamaCppContextSizes = new Map<string, number>();
+
+/**
+ * The context size of the created models, to recreate them when it changes.
+ */
+const llamaCppModelContextSizes = new Map<string, number>();
+
+function getLlamaCppContextSizes(value: unknown): Map<string, number> {
+  const contextSizes = new Map<string, number>();
+  if (!Array.isArray(value)) {
+    return contextSizes;
+  }
+
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') {
+      continue;
+    }
+
+    const modelName = normalizeModelName(entry.id);
+    if (
+      modelName &&
+      typeof entry.contextSize === 'number' &&
+      Number.isInteger(entry.contextSize) &&
+      entry.contextSize > 0
+    ) {
+      contextSizes.set(modelName, entry.contextSize);
+    }
+  }
+
+  return contextSizes;
+}
+
+function getLlamaCppContextSize(modelName: string): number {
+  return llamaCppContextSizes.get(modelName) ?? DEFAULT_CONTEXT_SIZE;
+}
+
+function getLlamaCppModelSourceError(modelName: string): string {
+  return `"${modelName}" is neither a GGUF file URL nor a Hugging Face reference like "owner/repo:Q4_K_M"`;
+}
+
+function createLlamaCppModel(modelName: string): IBrowserAIBackendModel {
+  const source = getLlamaCppModelSource(modelName);
+  // Each instance runs llama.cpp in its own worker.
+  const wllama = new Wllama(
+    { default: WLLAMA_WASM_URL },
+    // Load cached models without checking for updates when offline.
+    { allowOffline: true }
+  );
+  const languageModel = new LlamaCppLanguageModel(modelName, wllama);
+  const contextSize = getLlamaCppContextSize(modelName);
+  const download = new AbortController();
+  llamaCppModelContextSizes.set(modelName, contextSize);
+
+  return {
+    languageModel,
+    // Wllama owns its worker: WebAssembly aborts reject the calls in flight
+    // with a RuntimeError, which is handled as a crash.
+    availability: async () => {
+      if (!source) {
+        return 'unavailable';
+      }
+      return wllama.isModelLoaded() ? 'available' : 'downloadable';
+    },
+    initialize: async onProgress => {
+      if (!source) {
+        throw new Error(getLlamaCppModelSourceError(modelName));
+      }
+
+      const params = {
+        n_ctx: contextSize,
+        // The backend targets devices without WebGPU, and keeps the GPU free
+        // for the WebLLM and Transformers.js models.
+        n_gpu_layers: 0,
+        // Render the chat template of the model, including tools.
+        jinja: true,
+        signal: download.signal,
+        progressCallback: ({
+          loaded,
+          total
+        }: {
+          loaded: number;
+          total: number;
+        }) => {
+          onProgress({ progress: total > 0 ? loaded / total : 0 });
+        }
+      };
+      if (source.type === 'url') {
+        await wllama.loadModelFromUrl(source.url, params);
+      } else {
+        await wllama.loadModelFromHF(source.params, params);
+      }
+    },
+    dispose: () => {
+      download.abort();
+      llamaCppModelContextSizes.delete(modelName);
+      void wllama.exit().catch(error => {
+        console.warn(`Failed to release llama.cpp model "${modelName}"`, error);
+      });
+    }
+  };
+}
+
+/**
+ * The llama.cpp backend, running GGUF models on CPU with WebAssembly.
+ */
+export const llamaCppBackend: IBrowserAIBackend = {
+  id: 'llama-cpp',
+  name: BACKEND_LABELS['llama-cpp'],
+  description:
+    'GGUF models running on CPU with WebAssembly, for devices without WebGPU. Configure model IDs in the "llamaCppModels" setting.',
+  supportsToolCalling: true,
+  settings: {
+    key: LLAMACPP_CUSTOM_MODELS_SETTING,
+    update: composite => {
+      llamaCppContextSizes = getLlamaCppContextSizes(
+        composite[LLAMACPP_CUSTOM_MODELS_SETTING]
+      );
+
+      // Models loaded with another context size are recreated on next use.
+      for (const [modelName, contextSize] of [...llamaCppModelContextSizes]) {
+        if (getLlamaCppContextSize(modelName) !== contextSize) {
+          unloadModel('llama-cpp', modelName);
+        }
+      }
+    }
+  },
+  isSupported: () =>
+    typeof WebAssembly === 'object' && typeof Worker !== 'undefined',
+  createModel: createLlamaCppModel,
+  isModelCached: modelName => isModelCached('llama-cpp', modelName),
+  getContextWindow: async modelName =>
+    llamaCppModelContextSizes.get(modelName) ??
+    getLlamaCppContextSize(modelName),
+  validateModel: async modelName =>
+    getLlamaCppModelSource(modelName)
+      ? null
+      : `${getLlamaCppModelSourceError(modelName)}.`,
+  getModelDownloadSize: async modelName => {
+    const source = getLlamaCppModelSource(modelName);
+    if (!source) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(await getLlamaCppModelUrl(source), {
+        method: 'HEAD'
+      });
+      const size = Number(response.headers.get('content-length'));
+      return response.ok && size > 0 ? size : null;
+    } catch {
+      return null;
+    }
+  },
+  verifyModelCache: modelName => verifyCachedModel('llama-cpp', modelName),
+  deleteModelCache: modelName => deleteCachedModel('llama-cpp', modelName),
+  listCachedModels: configuredModelNames =>
+    listCachedModels('llama-cpp', configuredModelNames),
+  clearModelCache: () => clearBackendCache('llama-cpp')
+};
@@ -0,0 +1,426 @@
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3Content,
+  LanguageModelV3FinishReason,
+  LanguageModelV3FunctionTool,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3Prompt,
+  LanguageModelV3StreamPart,
+  LanguageModelV3StreamResult,
+  LanguageModelV3ToolResultOutput,
+  LanguageModelV3Usage,
+  SharedV3Warning
+} from '@ai-sdk/provider';
+
+import { PageConfig } from '@jupyterlab/coreutils';
+
+import {
+  getHFModelSource,
+  type ChatCompletionChunk,
+  type ChatCompletionMessage,
+  type ChatCompletionParams,
+  type ChatCompletionToolFunctionParameters,
+  type ChatCompletionUsage,
+  type HuggingFaceParams,
+  type Wllama
+} from '@wllama/wllama/esm/index.js';
+
+/**
+ * Where to download a GGUF model from.
+ */
+export type LlamaCppModelSource =
+  { type: 'url'; url: string } | { type: 'hf'; params: HuggingFaceParams };
+
+/**
+ * Parse a model ID of the "llamaCppModels" setting. IDs are either URLs of
+ * GGUF files or Hugging Face references, like the `-hf` option of llama.cpp:
+ * `<owner>/<repo>[:<quant>]` or `<owner>/<repo>/<file>.gguf`.
+ */
+export function getLlamaCppModelSource(
+  modelName: string
+): LlamaCppModelSource | null {
+  if (/^(https?:)?\/\//.test(modelName) || /^\.{0,2}\//.test(modelName)) {
+    const baseUrl = new URL(PageConfig.getBaseUrl(), window.location.href);
+    return { type: 'url', url: new URL(modelName, baseUrl).href };
+  }
+
+  const match = modelName.match(
+    /^([^/:\s]+\/[^/:\s]+)(?:\/([^:\s]+\.gguf)|:([\w.-]+))?$/i
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, repo, file, quant] = match;
+  return { type: 'hf', params: { repo, file, quant } };
+}
+
+/**
+ * The URL of the first GGUF file of a model, as used for the cache keys.
+ */
+export async function getLlamaCppModelUrl(
+  source: LlamaCppModelSource
+): Promise<string> {
+  return source.type === 'url'
+    ? source.url
+    : (await getHFModelSource(source.params)).url;
+}
+
+function getToolResultText(output: LanguageModelV3ToolResultOutput): string {
+  switch (output.type) {
+    case 'text':
+    case 'error-text':
+      return output.value;
+    case 'json':
+    case 'error-json':
+      return JSON.stringify(output.value);
+    case 'execution-denied':
+      return output.reason ?? 'The tool execution was denied.';
+    case 'content':
+      return output.value
+        .map(part => (part.type === 'text' ? part.text : ''))
+        .join('');
+    default:
+      return '';
+  }
+}
+
+/**
+ * Convert an AI SDK prompt to OpenAI-style chat messages, the format of the
+ * llama.cpp chat templates.
+ */
+function getChatMessages(
+  prompt: LanguageModelV3Prompt,
+  warnings: SharedV3Warning[]
+): ChatCompletionMessage[] {
+  const messages: ChatCompletionMessage[] = [];
+  let hasSkippedFiles = false;
+
+  for (const message of prompt) {
+    switch (message.role) {
+      case 'system':
+        messages.push({ role: 'system', content: message.content });
+        break;
+      case 'user': {
+        const text: string[] = [];
+        for (const part of message.content) {
+          if (part.type === 'text') {
+            text.push(part.text);
+          } else {
+            hasSkippedFiles = true;
+          }
+        }
+        messages.push({ role: 'user', content: text.join('\n') });
+        break;
+      }
+      case 'assistant': {
+        const text: string[] = [];
+        const toolCalls = [];
+        for (const part of message.content) {
+          if (part.type === 'text') {
+            text.push(part.text);
+          } else if (part.type === 'tool-call') {
+            toolCalls.push({
+              id: part.toolCallId,
+              type: 'function' as const,
+              function: {
+                name: part.toolName,
+                arguments:
+                  typeof part.input === 'string'
+                    ? part.input
+                    : JSON.stringify(part.input)
+              }
+            });
+          }
+        }
+        messages.push({
+          role: 'assistant',
+          content: text.join(''),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        });
+        break;
+      }
+      case 'tool':
+        for (const part of message.content) {
+          if (part.type === 'tool-result') {
+            messages.push({
+              role: 'tool',
+              tool_call_id: part.toolCallId,
+              content: getToolResultText(part.output)
+            });
+          }
+        }
+        break;
+    }
+  }
+
+  if (hasSkippedFiles) {
+    warnings.push({
+      type: 'unsupported',
+      feature: 'file parts',
+      details: 'llama.cpp models only receive the text of messages.'
+    });
+  }
+
+  return messages;
+}
+
+function getFinishReason(
+  reason: string | null | undefined
+): LanguageModelV3FinishReason {
+  switch (reason) {
+    case 'stop':
+      return { unified: 'stop', raw: reason };
+    case 'length':
+      return { unified: 'length', raw: reason };
+    case 'tool_calls':
+      return { unified: 'tool-calls', raw: reason };
+    case 'content_filter':
+      return { unified: 'content-filter', raw: reason };
+    default:
+      return { unified: 'other', raw: reason ?? undefined };
+  }
+}
+
+function getUsage(
+  usage: ChatCompletionUsage | null | undefined
+): LanguageModelV3Usage {
+  return {
+    inputTokens: {
+      total: usage?.prompt_tokens,
+      noCache: undefined,
+      cacheRead: usage?.prompt_tokens_details?.cached_tokens,
+      cacheWrite: undefined
+    },
+    outputTokens: {
+      total: usage?.completion_tokens,
+      text: undefined,
+      reasoning: undefined
+    }
+  };
+}
+
+/**
+ * An AI SDK language model backed by a GGUF model loaded in wllama, the
+ * llama.cpp WebAssembly build. wllama runs llama.cpp in a dedicated worker.
+ */
+export class LlamaCppLanguageModel implements LanguageModelV3 {
+  readonly specificationVersion = 'v3';
+  readonly provider = 'llama-cpp';
+  readonly supportedUrls = {};
+
+  constructor(
+    readonly modelId: string,
+    private _wllama: Wllama
+  ) {}
+
+  /**
+   * Whether the chat template of the model renders tool definitions. Only
+   * known once the model is loaded.
+   */
+  get supportsToolCalling(): boolean {
+    if (!this._wllama.isModelLoaded()) {
+      return false;
+    }
+    return /\btools\b/.test(this._wllama.getChatTemplate() ?? '');
+  }
+
+  async doGenerate(
+    options: LanguageModelV3CallOptions
+  ): Promise<LanguageModelV3GenerateResult> {
+    const warnings: SharedV3Warning[] = [];
+    const params = this._getParams(options, warnings);
+    const response = await this._wllama.createChatCompletion({
+      ...params,
+      stream: false
+    });
+
+    const choice = response.choices[0];
+    const content: LanguageModelV3Content[] = [];
+    if (choice?.message.content) {
+      content.push({ type: 'text', text: choice.message.content });
+    }
+    for (const toolCall of choice?.message.tool_calls ?? []) {
+      content.push({
+        type: 'tool-call',
+        toolCallId: toolCall.id,
+        toolName: toolCall.function.name,
+        input: toolCall.function.arguments
+      });
+    }
+
+    return {
+      content,
+      finishReason: getFinishReason(choice?.finish_reason),
+      usage: getUsage(response.usage),
+      response: { id: response.id, modelId: this.modelId },
+      warnings
+    };
+  }
+
+  async doStream(
+    options: LanguageModelV3CallOptions
+  ): Promise<LanguageModelV3StreamResult> {
+    const warnings: SharedV3Warning[] = [];
+    const params = this._getParams(options, warnings);
+    const chunks = await this._wllama.createChatCompletion({
+      ...params,
+      stream: true
+    });
+
+    return {
+      stream: new ReadableStream<LanguageModelV3StreamPart>({
+        start: async controller => {
+          controller.enqueue({ type: 'stream-start', warnings });
+          try {
+            await this._readChunks(chunks, controller);
+          } catch (error) {
+            controller.enqueue({ type: 'error', error });
+          }
+          controller.close();
+        }
+      })
+    };
+  }
+
+  private async _readChunks(
+    chunks: AsyncIterable<ChatCompletionChunk>,
+    controller: ReadableStreamDefaultController<LanguageModelV3StreamPart>
+  ): Promise<void> {
+    const textId = 'text-0';
+    let hasText = false;
+    let finishReason: string | null = null;
+    let usage: ChatCompletionUsage | null | undefined;
+    // Tool calls are streamed as argument fragments.
+    const toolCalls = new Map<
+      number,
+      { id: string; name: string; arguments: string }
+    >();
+
+    for await (const chunk of chunks) {
+      usage = chunk.usage ?? usage;
+      for (const choice of chunk.choices) {
+        finishReason = choice.finish_reason ?? finishReason;
+
+        if (choice.delta.content) {
+          if (!hasText) {
+            hasText = true;
+            controller.enqueue({ type: 'text-start', id: textId });
+          }
+          controller.enqueue({
+            type: 'text-delta',
+            id: textId,
+            delta: choice.delta.content
+          });
+        }
+
+        for (const delta of choice.delta.tool_calls ?? []) {
+          const toolCall = toolCalls.get(delta.index) ?? {
+            id: delta.id ?? `call-${delta.index}`,
+            name: '',
+            arguments: ''
+          };
+          toolCall.name += delta.function?.name ?? '';
+          toolCall.arguments += delta.function?.arguments ?? '';
+          toolCalls.set(delta.index, toolCall);
+        }
+      }
+    }
+
+    if (hasText) {
+      controller.enqueue({ type: 'text-end', id: textId });
+    }
+    for (const toolCall of toolCalls.values()) {
+      controller.enqueue({
+        type: 'tool-call',
+        toolCallId: toolCall.id,
+        toolName: toolCall.name,
+        input: toolCall.arguments || '{}'
+      });
+    }
+    controller.enqueue({
+      type: 'finish',
+      finishReason: getFinishReason(finishReason),
+      usage: getUsage(usage)
+    });
+  }
+
+  private _getParams(
+    options: LanguageModelV3CallOptions,
+    warnings: SharedV3Warning[]
+  ): ChatCompletionParams {
+    const params: ChatCompletionParams = {
+      messages: getChatMessages(options.prompt, warnings),
+      abortSignal: options.abortSignal,
+      max_tokens: options.maxOutputTokens,
+      temperature: options.temperature,
+      top_p: options.topP,
+      top_k: options.topK,
+      seed: options.seed,
+      penalty_present: options.presencePenalty,
+      penalty_freq: options.frequencyPenalty
+    };
+
+    if (options.stopSequences?.length) {
+      warnings.push({ type: 'unsupported', feature: 'stopSequences' });
+    }
+
+    if (options.responseFormat?.type === 'json') {
+      params.response_format = options.responseFormat.schema
+        ? {
+            type: 'json_schema',
+            json_schema: {
+              name: options.responseFormat.name ?? 'response',
+              schema: options.responseFormat.schema
+            }
+          }
+        : { type: 'json_object' };
+    }
+
+    const tools = (options.tools ?? []).filter(
+      (tool): tool is LanguageModelV3FunctionTool => {
+        if (tool.type !== 'function') {
+          warnings.push({
+            type: 'unsupported',
+            feature: `provider-defined tool ${tool.name}`
+          });
+          return false;
+        }
+        return true;
+      }
+    );
+    if (tools.length === 0) {
+      return params;
+    }
+    if (!this.supportsToolCalling) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'tools',
+        details: `The chat template of ${this.modelId} does not support tools.`
+      });
+      return params;
+    }
+
+    params.tools = tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema as ChatCompletionToolFunctionParameters
+      }
+    }));
+
+    const { toolChoice } = options;
+    if (toolChoice?.type === 'tool') {
+      params.tool_choice = {
+        type: 'function',
+        function: { name: toolChoice.toolName }
+      };
+    } else if (toolChoice) {
+      params.tool_choice = toolChoice.type;
+    }
+
+    return params;
+  }
+}
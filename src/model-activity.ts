@@ -0,0 +1,303 @@
+import {
+  JupyterFrontEnd,
+  JupyterFrontEndPlugin
+} from '@jupyterlab/application';
+
+import { IStatusBar, showPopup, type Popup } from '@jupyterlab/statusbar';
+
+import { CommandRegistry } from '@lumino/commands';
+import { ISignal, Signal } from '@lumino/signaling';
+import { Widget } from '@lumino/widgets';
+
+import { BrowserAICommandIDs, getBackendLabel } from './browser-ai-shared';
+
+/**
+ * The loading phase of an in-browser model.
+ */
+export type ModelLoadPhase =
+  'queued' | 'downloading' | 'compiling' | 'ready' | 'failed';
+
+/**
+ * The loading state of a model, as shown in the status bar popup.
+ */
+export interface IModelActivity {
+  backend: string;
+  modelName: string;
+  phase: ModelLoadPhase;
+  progress: number;
+  error?: string;
+  retry?: () => void;
+}
+
+const PHASE_LABELS: Record<ModelLoadPhase, string> = {
+  queued: 'Queued',
+  downloading: 'Downloading',
+  compiling: 'Compiling',
+  ready: 'Ready',
+  failed: 'Failed'
+};
+
+const modelActivities = new Map<string, IModelActivity>();
+const activityChanged = new Signal<unknown, void>(modelActivities);
+
+function getActivityKey(backend: string, modelName: string) {
+  return `${backend}:${modelName}`;
+}
+
+/**
+ * Whether a model is still being downloaded or initialized.
+ */
+export function isLoading(activity: IModelActivity): boolean {
+  return (
+    activity.phase === 'queued' ||
+    activity.phase === 'downloading' ||
+    activity.phase === 'compiling'
+  );
+}
+
+/**
+ * A signal emitted when the loading state of a model changes.
+ */
+export const modelActivityChanged: ISignal<unknown, void> = activityChanged;
+
+/**
+ * Update the loading state of a model.
+ */
+export function setModelActivity(
+  backend: string,
+  modelName: string,
+  phase: ModelLoadPhase,
+  details: Partial<Pick<IModelActivity, 'progress' | 'error' | 'retry'>> = {}
+): void {
+  const key = getActivityKey(backend, modelName);
+  const progress =
+    details.progress ??
+    (phase === 'ready' ? 1 : (modelActivities.get(key)?.progress ?? 0));
+
+  modelActivities.set(key, {
+    backend,
+    modelName,
+    phase,
+    progress: Math.max(0, Math.min(1, progress)),
+    error: details.error,
+    retry: details.retry
+  });
+  activityChanged.emit();
+}
+
+/**
+ * Forget the loading state of a model, e.g. when it is unloaded.
+ */
+export function clearModelActivity(backend: string, modelName: string): void {
+  if (modelActivities.delete(getActivityKey(backend, modelName))) {
+    activityChanged.emit();
+  }
+}
+
+/**
+ * The loading state of every model loaded or loading in this session.
+ */
+export function getModelActivities(): IModelActivity[] {
+  return [...modelActivities.values()];
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * A summary of the loading state of all models, e.g. "Loading 2 models, 40%".
+ */
+function getActivitySummary(): string {
+  const activities = getModelActivities();
+  const loading = activities.filter(isLoading);
+  if (loading.length > 0) {
+    const progress =
+      loading.reduce((total, activity) => total + activity.progress, 0) /
+      loading.length;
+    return `Loading ${pluralize(loading.length, 'model')}, ${Math.round(progress * 100)}%`;
+  }
+
+  const failed = activities.filter(activity => activity.phase === 'failed');
+  if (failed.length > 0) {
+    return `${pluralize(failed.length, 'model')} failed`;
+  }
+
+  return `${pluralize(activities.length, 'model')} ready`;
+}
+
+/**
+ * The popup listing the loading state of each model.
+ */
+class ModelActivityList extends Widget {
+  constructor(commands: CommandRegistry) {
+    super();
+    this._commands = commands;
+    this.addClass('jp-browser-ai-activity-list');
+    activityChanged.connect(this._render, this);
+    this._render();
+  }
+
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    Signal.disconnectReceiver(this);
+    super.dispose();
+  }
+
+  private _render(): void {
+    this.node.replaceChildren();
+
+    const activities = getModelActivities();
+    if (activities.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'jp-browser-ai-activity-empty';
+      empty.textContent = 'No models loaded.';
+      this.node.appendChild(empty);
+      return;
+    }
+
+    const list = document.createElement('ul');
+    for (const activity of activities) {
+      const item = document.createElement('li');
+      item.className = 'jp-browser-ai-activity-item';
+      item.dataset.phase = activity.phase;
+
+      const name = document.createElement('span');
+      name.className = 'jp-browser-ai-activity-model';
+      name.textContent = activity.modelName;
+      name.title = activity.modelName;
+      item.appendChild(name);
+
+      const phase = document.createElement('span');
+      phase.className = 'jp-browser-ai-activity-phase';
+      phase.textContent =
+        activity.phase === 'downloading' || activity.phase === 'compiling'
+          ? `${PHASE_LABELS[activity.phase]} ${Math.round(activity.progress * 100)}%`
+          : PHASE_LABELS[activity.phase];
+      item.appendChild(phase);
+
+      const details = document.createElement('span');
+      details.className = 'jp-browser-ai-activity-details';
+      details.textContent = getBackendLabel(activity.backend);
+      item.appendChild(details);
+
+      if (isLoading(activity)) {
+        const progress = document.createElement('progress');
+        progress.max = 1;
+        progress.value = activity.progress;
+        item.appendChild(progress);
+
+        const button = document.createElement('button');
+        button.className = 'jp-mod-styled jp-browser-ai-activity-button';
+        button.textContent = 'Cancel';
+        button.addEventListener('click', () => {
+          void this._commands.execute(BrowserAICommandIDs.cancelModelLoad, {
+            backend: activity.backend,
+            modelId: activity.modelName
+          });
+        });
+        item.appendChild(button);
+      }
+
+      if (activity.phase === 'failed') {
+        if (activity.error) {
+          const error = document.createElement('span');
+          error.className = 'jp-browser-ai-activity-error';
+          error.textContent = activity.error;
+          item.appendChild(error);
+        }
+
+        const retry = activity.retry;
+        if (retry) {
+          const button = document.createElement('button');
+          button.className = 'jp-mod-styled jp-browser-ai-activity-button';
+          button.textContent = 'Retry';
+          button.addEventListener('click', () => retry());
+          item.appendChild(button);
+        }
+      }
+
+      list.appendChild(item);
+    }
+    this.node.appendChild(list);
+  }
+
+  private _commands: CommandRegistry;
+}
+
+/**
+ * The status bar item summarizing the loading state of all models.
+ */
+class ModelActivityStatus extends Widget {
+  constructor(commands: CommandRegistry) {
+    super({ node: document.createElement('span') });
+    this._commands = commands;
+    this.addClass('jp-browser-ai-activity-status');
+    this.node.title = 'Show the loading state of the in-browser models';
+    this.node.addEventListener('click', this);
+    activityChanged.connect(this._update, this);
+    this._update();
+  }
+
+  handleEvent(event: Event): void {
+    if (event.type !== 'click') {
+      return;
+    }
+
+    if (this._popup && !this._popup.isDisposed) {
+      this._popup.dispose();
+      this._popup = null;
+      return;
+    }
+
+    this._popup = showPopup({
+      body: new ModelActivityList(this._commands),
+      anchor: this,
+      align: 'left',
+      hasDynamicSize: true
+    });
+  }
+
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._popup?.dispose();
+    Signal.disconnectReceiver(this);
+    super.dispose();
+  }
+
+  private _update(): void {
+    this.node.textContent =
+      modelActivities.size > 0 ? `Browser AI: ${getActivitySummary()}` : '';
+  }
+
+  private _commands: CommandRegistry;
+  private _popup: Popup | null = null;
+}
+
+/**
+ * A plugin showing the loading state of the in-browser models in the status
+ * bar.
+ */
+export const modelActivityPlugin: JupyterFrontEndPlugin<void> = {
+  id: 'jupyterlab-browser-ai:model-activity',
+  description: 'Loading state of the in-browser models in the status bar',
+  autoStart: true,
+  optional: [IStatusBar],
+  activate: (app: JupyterFrontEnd, statusBar: IStatusBar | null) => {
+    if (!statusBar) {
+      return;
+    }
+
+    statusBar.registerStatusItem('jupyterlab-browser-ai:model-activity', {
+      item: new ModelActivityStatus(app.commands),
+      align: 'left',
+      rank: 900,
+      isActive: () => modelActivities.size > 0,
+      activeStateChanged: modelActivityChanged
+    });
+  }
+};
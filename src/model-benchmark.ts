@@ -0,0 +1,401 @@
+import type { LanguageModelV3 } from '@ai-sdk/provider';
+
+import type * as nbformat from '@jupyterlab/nbformat';
+
+import { UUID } from '@lumino/coreutils';
+
+import { streamText } from 'ai';
+
+import { getBackendLabel } from './browser-ai-shared';
+import { average, formatDuration, formatNumber } from './model-metrics';
+import { formatBytes } from './model-storage';
+
+/**
+ * The prompts run when the "benchmarkPrompts" setting is empty.
+ */
+export const DEFAULT_BENCHMARK_PROMPTS = [
+  'Explain the difference between a list and a tuple in Python in two sentences.',
+  'Write a Python function that returns the n-th Fibonacci number iteratively.',
+  'Summarize in one paragraph what a Jupyter notebook is and who uses it.',
+  'What is 17 multiplied by 23? Answer with the number only.'
+];
+
+/**
+ * Get the prompts of the "benchmarkPrompts" setting, or the default prompts
+ * when it is empty.
+ */
+export function getBenchmarkPrompts(value: unknown): string[] {
+  const prompts = Array.isArray(value)
+    ? value
+        .filter((prompt): prompt is string => typeof prompt === 'string')
+        .map(prompt => prompt.trim())
+        .filter(prompt => prompt !== '')
+    : [];
+  return prompts.length > 0 ? prompts : DEFAULT_BENCHMARK_PROMPTS;
+}
+
+/**
+ * The output of every prompt is capped, so throughputs are comparable.
+ */
+const BENCHMARK_MAX_OUTPUT_TOKENS = 256;
+
+const MEMORY_SAMPLE_INTERVAL_MS = 1000;
+
+/**
+ * A model to benchmark.
+ */
+export interface IBenchmarkTarget {
+  backend: string;
+  modelName: string;
+  /**
+   * Download and load the model, when it has to be loaded explicitly.
+   */
+  load?: () => Promise<void>;
+  getModel: () => LanguageModelV3;
+  /**
+   * Release the model once its run is over.
+   */
+  unload?: () => void;
+}
+
+/**
+ * The result of one prompt.
+ */
+export interface IBenchmarkPromptResult {
+  response: string;
+  error?: string;
+  /**
+   * Milliseconds from the request to the end of the response.
+   */
+  latency: number;
+  timeToFirstToken: number | null;
+  outputTokens: number | null;
+  tokensPerSecond: number | null;
+}
+
+/**
+ * The result of one model.
+ */
+export interface IBenchmarkModelResult {
+  backend: string;
+  modelName: string;
+  loadTime: number | null;
+  /**
+   * The peak memory measured during the run, in bytes.
+   */
+  peakMemory: number | null;
+  error?: string;
+  prompts: IBenchmarkPromptResult[];
+}
+
+/**
+ * Options of a benchmark run.
+ */
+export interface IBenchmarkOptions {
+  signal?: AbortSignal;
+  onProgress?: (message: string, progress: number) => void;
+}
+
+/**
+ * The non-standard memory APIs of Chromium.
+ */
+interface IPerformanceMemoryLike {
+  memory?: { usedJSHeapSize: number };
+  measureUserAgentSpecificMemory?: () => Promise<{ bytes: number }>;
+}
+
+/**
+ * Estimate the memory used by the page. Only cross-origin isolated pages can
+ * measure their workers, where the models run; otherwise this is the heap of
+ * the main thread.
+ */
+async function estimateMemoryUsage(): Promise<number | null> {
+  const memoryPerformance = performance as Performance & IPerformanceMemoryLike;
+  if (
+    window.crossOriginIsolated &&
+    memoryPerformance.measureUserAgentSpecificMemory
+  ) {
+    try {
+      return (await memoryPerformance.measureUserAgentSpecificMemory()).bytes;
+    } catch {
+      // Fall back to the heap size below.
+    }
+  }
+  return memoryPerformance.memory?.usedJSHeapSize ?? null;
+}
+
+/**
+ * Sample the memory usage until stopped, and resolve with the peak.
+ */
+function sampleMemoryUsage(): { stop: () => Promise<number | null> } {
+  let peak: number | null = null;
+  let stopped = false;
+
+  const sample = async () => {
+    const usage = await estimateMemoryUsage();
+    if (usage !== null) {
+      peak = Math.max(peak ?? 0, usage);
+    }
+  };
+
+  const sampling = (async () => {
+    while (!stopped) {
+      await sample();
+      await new Promise(resolve =>
+        window.setTimeout(resolve, MEMORY_SAMPLE_INTERVAL_MS)
+      );
+    }
+  })();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      await sampling;
+      await sample();
+      return peak;
+    }
+  };
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function runPrompt(
+  model: LanguageModelV3,
+  prompt: string,
+  signal?: AbortSignal
+): Promise<IBenchmarkPromptResult> {
+  const start = performance.now();
+  let firstTokenAt: number | null = null;
+  let response = '';
+  let streamError: unknown = null;
+
+  const result = streamText({
+    model,
+    prompt,
+    maxOutputTokens: BENCHMARK_MAX_OUTPUT_TOKENS,
+    abortSignal: signal,
+    onError: ({ error }) => {
+      streamError = error;
+    }
+  });
+
+  for await (const chunk of result.textStream) {
+    firstTokenAt ??= performance.now();
+    response += chunk;
+  }
+  if (streamError) {
+    throw streamError;
+  }
+
+  const end = performance.now();
+  const usage = await result.usage;
+  const outputTokens = usage.outputTokens ?? null;
+  const decodingTime = (end - (firstTokenAt ?? start)) / 1000;
+
+  return {
+    response,
+    latency: end - start,
+    timeToFirstToken: firstTokenAt === null ? null : firstTokenAt - start,
+    outputTokens,
+    tokensPerSecond:
+      outputTokens && decodingTime > 0 ? outputTokens / decodingTime : null
+  };
+}
+
+/**
+ * Run every prompt against each model, one model at a time.
+ */
+export async function runBenchmark(
+  targets: IBenchmarkTarget[],
+  prompts: string[],
+  options: IBenchmarkOptions = {}
+): Promise<IBenchmarkModelResult[]> {
+  const { signal, onProgress } = options;
+  const results: IBenchmarkModelResult[] = [];
+  const steps = targets.length * (prompts.length + 1);
+
+  for (const [targetIndex, target] of targets.entries()) {
+    signal?.throwIfAborted();
+
+    const { backend, modelName } = target;
+    const step = targetIndex * (prompts.length + 1);
+    const result: IBenchmarkModelResult = {
+      backend,
+      modelName,
+      loadTime: null,
+      peakMemory: null,
+      prompts: []
+    };
+    results.push(result);
+
+    const memory = sampleMemoryUsage();
+    try {
+      if (target.load) {
+        onProgress?.(`Loading ${modelName}...`, step / steps);
+        const loadStart = performance.now();
+        await target.load();
+        result.loadTime = performance.now() - loadStart;
+      }
+
+      const model = target.getModel();
+      for (const [promptIndex, prompt] of prompts.entries()) {
+        signal?.throwIfAborted();
+        onProgress?.(
+          `Benchmarking ${modelName}: prompt ${promptIndex + 1} of ${prompts.length}`,
+          (step + promptIndex + 1) / steps
+        );
+        try {
+          result.prompts.push(await runPrompt(model, prompt, signal));
+        } catch (error) {
+          signal?.throwIfAborted();
+          result.prompts.push({
+            response: '',
+            error: getErrorMessage(error),
+            latency: 0,
+            timeToFirstToken: null,
+            outputTokens: null,
+            tokensPerSecond: null
+          });
+        }
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      result.error = getErrorMessage(error);
+    } finally {
+      result.peakMemory = await memory.stop();
+      target.unload?.();
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Escape a value for a markdown table cell.
+ */
+function toTableCell(text: string): string {
+  return text
+    .trim()
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>');
+}
+
+function toMarkdownTable(header: string[], rows: string[][]): string {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(toTableCell).join(' | ')} |`)
+  ].join('\n');
+}
+
+function markdownCell(source: string): nbformat.IMarkdownCell {
+  return {
+    id: UUID.uuid4(),
+    cell_type: 'markdown',
+    metadata: {},
+    source
+  };
+}
+
+function getModelLabel(result: IBenchmarkModelResult): string {
+  return `${result.modelName} (${getBackendLabel(result.backend)})`;
+}
+
+/**
+ * A notebook with the summary of each model, then the responses of the
+ * models side by side for each prompt.
+ */
+export function createBenchmarkNotebook(
+  results: IBenchmarkModelResult[],
+  prompts: string[]
+): nbformat.INotebookContent {
+  const memoryNote = window.crossOriginIsolated
+    ? 'Peak memory is the memory of the page, including the model workers.'
+    : 'Peak memory is the JavaScript heap of the main thread: the page is not cross-origin isolated, so the memory of the model workers cannot be measured.';
+
+  const cells = [
+    markdownCell(
+      [
+        '# Browser AI benchmark',
+        '',
+        `Run on ${new Date().toLocaleString()} with ${navigator.userAgent}.`,
+        '',
+        `Each response is limited to ${BENCHMARK_MAX_OUTPUT_TOKENS} tokens. Latency is the time to the end of the response and throughput the output tokens per second after the first token. ${memoryNote}`
+      ].join('\n')
+    ),
+    markdownCell(
+      [
+        '## Summary',
+        '',
+        toMarkdownTable(
+          [
+            'Model',
+            'Load time',
+            'Time to first token',
+            'Latency',
+            'Tokens/s',
+            'Peak memory',
+            'Errors'
+          ],
+          results.map(result => {
+            const completed = result.prompts.filter(prompt => !prompt.error);
+            const peakMemory = result.peakMemory;
+            return [
+              getModelLabel(result),
+              formatDuration(result.loadTime),
+              formatDuration(
+                average(completed.map(prompt => prompt.timeToFirstToken))
+              ),
+              formatDuration(average(completed.map(prompt => prompt.latency))),
+              formatNumber(
+                average(completed.map(prompt => prompt.tokensPerSecond)),
+                1
+              ),
+              peakMemory === null ? '—' : formatBytes(peakMemory),
+              result.error ?? String(result.prompts.length - completed.length)
+            ];
+          })
+        )
+      ].join('\n')
+    ),
+    ...prompts.map((prompt, index) =>
+      markdownCell(
+        [
+          `## Prompt ${index + 1}`,
+          '',
+          prompt
+            .split('\n')
+            .map(line => `> ${line}`)
+            .join('\n'),
+          '',
+          toMarkdownTable(
+            ['Model', 'Latency', 'Tokens/s', 'Response'],
+            results.map(result => {
+              const promptResult = result.prompts[index];
+              return [
+                getModelLabel(result),
+                formatDuration(promptResult?.latency ?? null),
+                formatNumber(promptResult?.tokensPerSecond ?? null, 1),
+                promptResult?.error
+                  ? `Error: ${promptResult.error}`
+                  : (promptResult?.response ?? result.error ?? '')
+              ];
+            })
+          )
+        ].join('\n')
+      )
+    )
+  ];
+
+  return {
+    cells,
+    metadata: {
+      browser_ai_benchmark: JSON.parse(JSON.stringify({ prompts, results }))
+    },
+    nbformat: 4,
+    nbformat_minor: 5
+  };
+}
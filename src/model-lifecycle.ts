@@ -0,0 +1,386 @@
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3StreamPart
+} from '@ai-sdk/provider';
+
+import { trackGeneration } from './model-metrics';
+
+/**
+ * Limits on how many in-browser models stay resident at once.
+ */
+export interface IModelMemoryPolicy {
+  /**
+   * Maximum number of loaded models across all backends. 0 means no limit.
+   */
+  maxLoadedModels: number;
+  /**
+   * Minutes without use after which a model is unloaded. 0 disables it.
+   */
+  idleUnloadMinutes: number;
+}
+
+/**
+ * A model currently loaded by one of the in-browser backends.
+ */
+export interface ILoadedModelInfo {
+  backend: string;
+  modelName: string;
+  lastUsed: number;
+  activeCalls: number;
+}
+
+interface ILoadedModelEntry extends ILoadedModelInfo {
+  unload: () => void;
+  isInitializing: () => boolean;
+}
+
+export const DEFAULT_MODEL_MEMORY_POLICY: IModelMemoryPolicy = {
+  maxLoadedModels: 2,
+  idleUnloadMinutes: 30
+};
+
+const IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_MODEL_CRASHES = 3;
+const MODEL_CRASH_WINDOW_MS = 10 * 60 * 1000;
+
+const loadedModels = new Map<string, ILoadedModelEntry>();
+let modelMemoryPolicy: IModelMemoryPolicy = { ...DEFAULT_MODEL_MEMORY_POLICY };
+let idleCheckInterval: number | null = null;
+const modelCrashTimes = new Map<string, number[]>();
+
+function getModelKey(backend: string, modelName: string): string {
+  return `${backend}:${modelName}`;
+}
+
+function toNonNegativeInteger(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? Math.floor(value)
+    : fallback;
+}
+
+/**
+ * Read the memory policy from the plugin settings composite.
+ */
+export function getModelMemoryPolicy(
+  composite: Record<string, unknown>
+): IModelMemoryPolicy {
+  return {
+    maxLoadedModels: toNonNegativeInteger(
+      composite.maxLoadedModels,
+      DEFAULT_MODEL_MEMORY_POLICY.maxLoadedModels
+    ),
+    idleUnloadMinutes: toNonNegativeInteger(
+      composite.idleUnloadMinutes,
+      DEFAULT_MODEL_MEMORY_POLICY.idleUnloadMinutes
+    )
+  };
+}
+
+/**
+ * Update the memory policy and apply it to the models already loaded.
+ */
+export function setModelMemoryPolicy(policy: IModelMemoryPolicy): void {
+  modelMemoryPolicy = { ...policy };
+  enforceLoadedModelLimit();
+  unloadIdleModels();
+}
+
+/**
+ * Register a newly created model so it takes part in eviction.
+ *
+ * Loading a model over the limit evicts the least recently used models that
+ * are neither initializing nor generating.
+ */
+export function trackLoadedModel(
+  backend: string,
+  modelName: string,
+  options: { unload: () => void; isInitializing: () => boolean }
+): void {
+  const key = getModelKey(backend, modelName);
+  loadedModels.set(key, {
+    backend,
+    modelName,
+    lastUsed: Date.now(),
+    activeCalls: 0,
+    ...options
+  });
+
+  enforceLoadedModelLimit(key);
+}
+
+/**
+ * Unload a model, terminating its worker and releasing its memory.
+ *
+ * Returns false when the model is not loaded.
+ */
+export function unloadModel(backend: string, modelName: string): boolean {
+  const key = getModelKey(backend, modelName);
+  const entry = loadedModels.get(key);
+  if (!entry) {
+    return false;
+  }
+
+  loadedModels.delete(key);
+  entry.unload();
+  return true;
+}
+
+/**
+ * List the loaded models, most recently used first.
+ */
+export function getLoadedModels(): ILoadedModelInfo[] {
+  return [...loadedModels.values()]
+    .map(({ backend, modelName, lastUsed, activeCalls }) => ({
+      backend,
+      modelName,
+      lastUsed,
+      activeCalls
+    }))
+    .sort((a, b) => b.lastUsed - a.lastUsed);
+}
+
+/**
+ * Whether another model can be loaded without going over the limit.
+ */
+export function hasLoadedModelCapacity(): boolean {
+  const { maxLoadedModels } = modelMemoryPolicy;
+  return maxLoadedModels === 0 || loadedModels.size < maxLoadedModels;
+}
+
+function isEvictable(entry: ILoadedModelEntry): boolean {
+  return entry.activeCalls === 0 && !entry.isInitializing();
+}
+
+function enforceLoadedModelLimit(keepKey?: string): void {
+  const { maxLoadedModels } = modelMemoryPolicy;
+  if (maxLoadedModels === 0) {
+    return;
+  }
+
+  const candidates = [...loadedModels.entries()]
+    .filter(([key, entry]) => key !== keepKey && isEvictable(entry))
+    .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+  while (loadedModels.size > maxLoadedModels && candidates.length > 0) {
+    const [, entry] = candidates.shift()!;
+    unloadModel(entry.backend, entry.modelName);
+  }
+}
+
+function unloadIdleModels(): void {
+  const { idleUnloadMinutes } = modelMemoryPolicy;
+  if (idleUnloadMinutes === 0) {
+    return;
+  }
+
+  const idleSince = Date.now() - idleUnloadMinutes * 60 * 1000;
+  for (const entry of [...loadedModels.values()]) {
+    if (entry.lastUsed < idleSince && isEvictable(entry)) {
+      unloadModel(entry.backend, entry.modelName);
+    }
+  }
+}
+
+/**
+ * Periodically unload models that have been idle for too long.
+ */
+export function startIdleModelMonitor(): void {
+  if (idleCheckInterval !== null) {
+    return;
+  }
+
+  idleCheckInterval = window.setInterval(
+    () => unloadIdleModels(),
+    IDLE_CHECK_INTERVAL_MS
+  );
+}
+
+/**
+ * Whether an error means the model worker is unusable: WebAssembly aborts
+ * surface as bare numeric codes or runtime errors, and a lost GPU device fails
+ * every later call.
+ */
+export function isModelCrashError(error: unknown): boolean {
+  const message = (
+    error instanceof Error ? error.message : String(error)
+  ).trim();
+  return (
+    (error instanceof Error && error.name === 'RuntimeError') ||
+    /^\d+$/.test(message) ||
+    /device (was |is |has been )?lost|DXGI_ERROR_DEVICE/i.test(message)
+  );
+}
+
+function getRecentModelCrashes(backend: string, modelName: string): number[] {
+  const since = Date.now() - MODEL_CRASH_WINDOW_MS;
+  return (modelCrashTimes.get(getModelKey(backend, modelName)) ?? []).filter(
+    time => time >= since
+  );
+}
+
+/**
+ * Record that a model crashed.
+ *
+ * Returns whether the model may be created again: a model crashing too often
+ * is not recreated until the page is reloaded.
+ */
+export function recordModelCrash(backend: string, modelName: string): boolean {
+  const crashes = [...getRecentModelCrashes(backend, modelName), Date.now()];
+  modelCrashTimes.set(getModelKey(backend, modelName), crashes);
+  return crashes.length < MAX_MODEL_CRASHES;
+}
+
+/**
+ * Throw when a model crashed too often to be created again.
+ */
+export function assertModelCanRestart(
+  backend: string,
+  modelName: string
+): void {
+  if (getRecentModelCrashes(backend, modelName).length >= MAX_MODEL_CRASHES) {
+    throw new Error(
+      `${modelName} crashed ${MAX_MODEL_CRASHES} times in the last ${MODEL_CRASH_WINDOW_MS / 60000} minutes and will not be loaded again. Reload the page or choose another model.`
+    );
+  }
+}
+
+function beginModelCall(backend: string, modelName: string) {
+  const entry = loadedModels.get(getModelKey(backend, modelName));
+  if (!entry) {
+    return () => undefined;
+  }
+
+  entry.activeCalls++;
+  entry.lastUsed = Date.now();
+
+  let ended = false;
+  return () => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    entry.activeCalls = Math.max(0, entry.activeCalls - 1);
+    entry.lastUsed = Date.now();
+  };
+}
+
+/**
+ * Create a language model that resolves the backend model on every call.
+ *
+ * Chats keep the returned model for their whole lifetime, so it must keep
+ * working after the underlying model has been unloaded or has crashed: the
+ * next call simply creates it again.
+ *
+ * `crashed` returns a promise rejecting when the current model worker dies,
+ * so calls in flight fail instead of waiting forever, and `onError` is told
+ * about every error of the underlying model.
+ */
+export function createManagedLanguageModel(
+  backend: string,
+  modelName: string,
+  options: {
+    getModel: (modelName: string) => LanguageModelV3;
+    initialize: (modelName: string) => Promise<void>;
+    prepareCall?: (
+      callOptions: LanguageModelV3CallOptions
+    ) => Promise<LanguageModelV3CallOptions>;
+    crashed?: (modelName: string) => Promise<never> | undefined;
+    onError?: (error: unknown) => void;
+  }
+): LanguageModelV3 {
+  const { getModel, initialize, prepareCall, crashed, onError } = options;
+
+  const untilCrashed = <T>(
+    promise: PromiseLike<T>,
+    crash: Promise<never> | undefined
+  ): Promise<T> => Promise.race(crash ? [promise, crash] : [promise]);
+
+  const loadedModel = () =>
+    loadedModels.has(getModelKey(backend, modelName))
+      ? getModel(modelName)
+      : null;
+
+  return {
+    specificationVersion: 'v3',
+    provider: backend,
+    modelId: modelName,
+    get supportedUrls() {
+      return loadedModel()?.supportedUrls ?? {};
+    },
+    doGenerate: async (callOptions: LanguageModelV3CallOptions) => {
+      const metrics = trackGeneration(backend, modelName, callOptions.prompt);
+      await initialize(modelName);
+      metrics.loaded();
+      const preparedOptions = prepareCall
+        ? await prepareCall(callOptions)
+        : callOptions;
+      const model = getModel(modelName);
+      const crash = crashed?.(modelName);
+      const endCall = beginModelCall(backend, modelName);
+      try {
+        const result = await untilCrashed(
+          model.doGenerate(preparedOptions),
+          crash
+        );
+        metrics.finish(result.usage);
+        return result;
+      } catch (error) {
+        onError?.(error);
+        throw error;
+      } finally {
+        endCall();
+      }
+    },
+    doStream: async (callOptions: LanguageModelV3CallOptions) => {
+      const metrics = trackGeneration(backend, modelName, callOptions.prompt);
+      await initialize(modelName);
+      metrics.loaded();
+      const preparedOptions = prepareCall
+        ? await prepareCall(callOptions)
+        : callOptions;
+      const model = getModel(modelName);
+      const crash = crashed?.(modelName);
+      const endCall = beginModelCall(backend, modelName);
+      // A cancelled stream is never flushed, so also end the call on abort.
+      callOptions.abortSignal?.addEventListener('abort', endCall);
+      try {
+        const result = await untilCrashed(
+          model.doStream(preparedOptions),
+          crash
+        );
+        return {
+          ...result,
+          stream: result.stream.pipeThrough(
+            new TransformStream<
+              LanguageModelV3StreamPart,
+              LanguageModelV3StreamPart
+            >({
+              start: controller => {
+                crash?.catch(error => {
+                  endCall();
+                  controller.error(error);
+                });
+              },
+              transform: (part, controller) => {
+                if (part.type === 'error') {
+                  onError?.(part.error);
+                } else if (part.type === 'finish') {
+                  metrics.finish(part.usage);
+                } else {
+                  metrics.streamPart(part);
+                }
+                controller.enqueue(part);
+              },
+              flush: () => endCall()
+            })
+          )
+        };
+      } catch (error) {
+        endCall();
+        onError?.(error);
+        throw error;
+      }
+    }
+  };
+}
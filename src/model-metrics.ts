@@ -0,0 +1,498 @@
+import type {
+  LanguageModelV3Prompt,
+  LanguageModelV3StreamPart,
+  LanguageModelV3Usage
+} from '@ai-sdk/provider';
+
+import {
+  JupyterFrontEnd,
+  JupyterFrontEndPlugin
+} from '@jupyterlab/application';
+
+import {
+  Dialog,
+  ICommandPalette,
+  MainAreaWidget,
+  showDialog
+} from '@jupyterlab/apputils';
+import {
+  deleteIcon,
+  refreshIcon,
+  tableRowsIcon,
+  ToolbarButton
+} from '@jupyterlab/ui-components';
+
+import { ISignal, Signal } from '@lumino/signaling';
+import { Widget } from '@lumino/widgets';
+
+import { BrowserAICommandIDs, getBackendLabel } from './browser-ai-shared';
+import { openDatabase, requestToPromise, transactionDone } from './indexeddb';
+import { getModelActivities } from './model-activity';
+
+const DATABASE_NAME = 'jupyterlab-browser-ai-metrics';
+const DATABASE_VERSION = 1;
+const GENERATIONS_STORE = 'generations';
+
+/**
+ * The number of generations kept, the oldest being deleted first.
+ */
+const MAX_RECORDED_GENERATIONS = 5000;
+
+/**
+ * The measurements of one generation of an in-browser model.
+ */
+export interface IGenerationMetrics {
+  backend: string;
+  modelName: string;
+  time: number;
+  /**
+   * Whether the model had to be loaded before generating.
+   */
+  coldStart: boolean;
+  /**
+   * Milliseconds spent waiting for the model to load.
+   */
+  loadTime: number;
+  /**
+   * Milliseconds from the end of the loading to the first streamed output, or
+   * null for non-streaming calls.
+   */
+  timeToFirstToken: number | null;
+  tokensPerSecond: number | null;
+  outputTokens: number | null;
+  promptTokens: number | null;
+  promptCharacters: number;
+}
+
+/**
+ * Aggregated metrics of a model, as shown in the metrics panel.
+ */
+export interface IModelMetricsSummary {
+  backend: string;
+  modelName: string;
+  generations: number;
+  lastUsed: number;
+  /**
+   * Median load time of the cold starts.
+   */
+  loadTime: number | null;
+  timeToFirstToken: number | null;
+  tokensPerSecond: number | null;
+  promptTokens: number | null;
+  promptCharacters: number;
+}
+
+/**
+ * The measurements of a generation in progress.
+ */
+export interface IGenerationTracker {
+  /**
+   * Mark the end of the model loading.
+   */
+  loaded(): void;
+  /**
+   * Observe a streamed part of the output.
+   */
+  streamPart(part: LanguageModelV3StreamPart): void;
+  /**
+   * Record the generation once it completed.
+   */
+  finish(usage: LanguageModelV3Usage): void;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+const metricsChanged = new Signal<unknown, void>(getGenerationMetrics);
+
+/**
+ * A signal emitted when generations are recorded or cleared.
+ */
+export const modelMetricsChanged: ISignal<unknown, void> = metricsChanged;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = openDatabase(DATABASE_NAME, DATABASE_VERSION, db => {
+      db.createObjectStore(GENERATIONS_STORE, {
+        keyPath: 'id',
+        autoIncrement: true
+      });
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+function getPromptCharacters(prompt: LanguageModelV3Prompt): number {
+  let characters = 0;
+  for (const message of prompt) {
+    if (typeof message.content === 'string') {
+      characters += message.content.length;
+      continue;
+    }
+    for (const part of message.content) {
+      if (part.type === 'text' || part.type === 'reasoning') {
+        characters += part.text.length;
+      }
+    }
+  }
+  return characters;
+}
+
+function isOutputPart(part: LanguageModelV3StreamPart): boolean {
+  return (
+    part.type === 'text-delta' ||
+    part.type === 'reasoning-delta' ||
+    part.type === 'tool-input-delta' ||
+    part.type === 'tool-call'
+  );
+}
+
+/**
+ * Store the metrics of a generation.
+ */
+async function recordGeneration(metrics: IGenerationMetrics): Promise<void> {
+  if (typeof indexedDB === 'undefined') {
+    return;
+  }
+
+  const db = await getDatabase();
+  const transaction = db.transaction(GENERATIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(GENERATIONS_STORE);
+  store.add(metrics);
+
+  // Keys increase with time, so the cursor starts from the oldest generation.
+  const countRequest = store.count();
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - MAX_RECORDED_GENERATIONS;
+    if (excess <= 0) {
+      return;
+    }
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor && excess > 0) {
+        excess--;
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+  };
+
+  await transactionDone(transaction);
+  metricsChanged.emit();
+}
+
+/**
+ * Start measuring a call to a model, before waiting for it to load.
+ */
+export function trackGeneration(
+  backend: string,
+  modelName: string,
+  prompt: LanguageModelV3Prompt
+): IGenerationTracker {
+  const coldStart = !getModelActivities().some(
+    activity =>
+      activity.backend === backend &&
+      activity.modelName === modelName &&
+      activity.phase === 'ready'
+  );
+  const start = performance.now();
+  let loadedAt = start;
+  let firstOutputAt: number | null = null;
+  let outputParts = 0;
+
+  return {
+    loaded: () => {
+      loadedAt = performance.now();
+    },
+    streamPart: part => {
+      if (!isOutputPart(part)) {
+        return;
+      }
+      firstOutputAt ??= performance.now();
+      if (part.type === 'text-delta' || part.type === 'reasoning-delta') {
+        outputParts++;
+      }
+    },
+    finish: usage => {
+      const end = performance.now();
+      // Browser providers stream about one token per delta, which stands in
+      // for the token count when they do not report usage.
+      const outputTokens =
+        usage.outputTokens.total ?? (outputParts > 0 ? outputParts : null);
+      // The decoding speed, without the prompt processing when streaming.
+      const decodingTime = (end - (firstOutputAt ?? loadedAt)) / 1000;
+
+      void recordGeneration({
+        backend,
+        modelName,
+        time: Date.now(),
+        coldStart,
+        loadTime: loadedAt - start,
+        timeToFirstToken:
+          firstOutputAt === null ? null : firstOutputAt - loadedAt,
+        tokensPerSecond:
+          outputTokens && decodingTime > 0 ? outputTokens / decodingTime : null,
+        outputTokens,
+        promptTokens: usage.inputTokens.total ?? null,
+        promptCharacters: getPromptCharacters(prompt)
+      }).catch(error => {
+        console.warn('Failed to record the model metrics', error);
+      });
+    }
+  };
+}
+
+/**
+ * Every recorded generation.
+ */
+export async function getGenerationMetrics(): Promise<IGenerationMetrics[]> {
+  if (typeof indexedDB === 'undefined') {
+    return [];
+  }
+
+  const db = await getDatabase();
+  return requestToPromise(
+    db.transaction(GENERATIONS_STORE).objectStore(GENERATIONS_STORE).getAll()
+  );
+}
+
+/**
+ * Delete every recorded generation.
+ */
+export async function clearGenerationMetrics(): Promise<void> {
+  if (typeof indexedDB === 'undefined') {
+    return;
+  }
+
+  const db = await getDatabase();
+  const transaction = db.transaction(GENERATIONS_STORE, 'readwrite');
+  transaction.objectStore(GENERATIONS_STORE).clear();
+  await transactionDone(transaction);
+  metricsChanged.emit();
+}
+
+function median(values: Array<number | null>): number | null {
+  const sorted = values
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * The mean of the known values.
+ */
+export function average(values: Array<number | null>): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0
+    ? known.reduce((total, value) => total + value, 0) / known.length
+    : null;
+}
+
+/**
+ * Aggregate the generations per model, most recently used first.
+ */
+export function summarizeGenerationMetrics(
+  generations: IGenerationMetrics[]
+): IModelMetricsSummary[] {
+  const byModel = new Map<string, IGenerationMetrics[]>();
+  for (const generation of generations) {
+    const key = `${generation.backend}:${generation.modelName}`;
+    byModel.set(key, [...(byModel.get(key) ?? []), generation]);
+  }
+
+  return [...byModel.values()]
+    .map(modelGenerations => {
+      const [{ backend, modelName }] = modelGenerations;
+      return {
+        backend,
+        modelName,
+        generations: modelGenerations.length,
+        lastUsed: Math.max(...modelGenerations.map(g => g.time)),
+        loadTime: median(
+          modelGenerations.filter(g => g.coldStart).map(g => g.loadTime)
+        ),
+        timeToFirstToken: median(modelGenerations.map(g => g.timeToFirstToken)),
+        tokensPerSecond: median(modelGenerations.map(g => g.tokensPerSecond)),
+        promptTokens: average(modelGenerations.map(g => g.promptTokens)),
+        promptCharacters:
+          average(modelGenerations.map(g => g.promptCharacters)) ?? 0
+      };
+    })
+    .sort((a, b) => b.lastUsed - a.lastUsed);
+}
+
+/**
+ * Format milliseconds for the metrics tables.
+ */
+export function formatDuration(milliseconds: number | null): string {
+  if (milliseconds === null) {
+    return '—';
+  }
+  return milliseconds < 1000
+    ? `${Math.round(milliseconds)} ms`
+    : `${(milliseconds / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Format a number for the metrics tables, or a dash when unknown.
+ */
+export function formatNumber(value: number | null, digits = 0): string {
+  return value === null ? '—' : value.toFixed(digits);
+}
+
+const METRICS_COLUMNS: Array<
+  [string, (summary: IModelMetricsSummary) => string]
+> = [
+  ['Model', summary => summary.modelName],
+  ['Backend', summary => getBackendLabel(summary.backend)],
+  ['Generations', summary => String(summary.generations)],
+  ['Load time', summary => formatDuration(summary.loadTime)],
+  ['Time to first token', summary => formatDuration(summary.timeToFirstToken)],
+  ['Tokens/s', summary => formatNumber(summary.tokensPerSecond, 1)],
+  ['Prompt tokens', summary => formatNumber(summary.promptTokens)],
+  ['Prompt characters', summary => formatNumber(summary.promptCharacters)]
+];
+
+/**
+ * A table of the aggregated metrics of each model.
+ */
+class ModelMetricsReport extends Widget {
+  constructor() {
+    super();
+    this.addClass('jp-browser-ai-metrics');
+    metricsChanged.connect(() => void this.refresh(), this);
+  }
+
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    Signal.disconnectReceiver(this);
+    super.dispose();
+  }
+
+  /**
+   * Read the recorded generations again and render them.
+   */
+  async refresh(): Promise<void> {
+    const summaries = summarizeGenerationMetrics(await getGenerationMetrics());
+
+    this.node.replaceChildren();
+    if (summaries.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'jp-browser-ai-metrics-empty';
+      empty.textContent =
+        'No generations recorded yet. Chat with a WebLLM, Transformers.js or llama.cpp model to collect metrics.';
+      this.node.appendChild(empty);
+      return;
+    }
+
+    const table = document.createElement('table');
+    const header = table.createTHead().insertRow();
+    for (const [label] of METRICS_COLUMNS) {
+      const cell = document.createElement('th');
+      cell.textContent = label;
+      header.appendChild(cell);
+    }
+
+    const body = table.createTBody();
+    for (const summary of summaries) {
+      const row = body.insertRow();
+      for (const [, format] of METRICS_COLUMNS) {
+        row.insertCell().textContent = format(summary);
+      }
+    }
+    this.node.appendChild(table);
+
+    const note = document.createElement('p');
+    note.className = 'jp-browser-ai-metrics-note';
+    note.textContent =
+      'Times and speeds are medians. The load time only counts generations that had to load the model first.';
+    this.node.appendChild(note);
+  }
+}
+
+/**
+ * A plugin providing a panel with the inference metrics of each model.
+ */
+export const modelMetricsPlugin: JupyterFrontEndPlugin<void> = {
+  id: 'jupyterlab-browser-ai:model-metrics',
+  description: 'Inference metrics of the in-browser models',
+  autoStart: true,
+  optional: [ICommandPalette],
+  activate: (app: JupyterFrontEnd, palette: ICommandPalette | null) => {
+    let widget: MainAreaWidget<ModelMetricsReport> | null = null;
+
+    app.commands.addCommand(BrowserAICommandIDs.showMetrics, {
+      label: 'Browser AI: Show Metrics',
+      caption:
+        'Show the load time, time to first token and speed of the in-browser models',
+      icon: tableRowsIcon,
+      execute: async () => {
+        if (!widget || widget.isDisposed) {
+          const report = new ModelMetricsReport();
+          widget = new MainAreaWidget({ content: report });
+          widget.id = 'jp-browser-ai-metrics';
+          widget.title.label = 'Browser AI Metrics';
+          widget.title.icon = tableRowsIcon;
+          widget.title.closable = true;
+
+          widget.toolbar.addItem(
+            'refresh',
+            new ToolbarButton({
+              icon: refreshIcon,
+              tooltip: 'Refresh',
+              onClick: () => {
+                void report.refresh();
+              }
+            })
+          );
+          widget.toolbar.addItem(
+            'clear',
+            new ToolbarButton({
+              icon: deleteIcon,
+              label: 'Clear',
+              tooltip: 'Delete the recorded metrics',
+              onClick: async () => {
+                const result = await showDialog({
+                  title: 'Clear metrics',
+                  body: 'Delete the metrics recorded for every model?',
+                  buttons: [
+                    Dialog.cancelButton(),
+                    Dialog.warnButton({ label: 'Clear' })
+                  ]
+                });
+                if (result.button.accept) {
+                  await clearGenerationMetrics();
+                }
+              }
+            })
+          );
+        }
+
+        if (!widget.isAttached) {
+          app.shell.add(widget, 'main');
+        }
+        app.shell.activateById(widget.id);
+
+        await widget.content.refresh();
+      }
+    });
+
+    if (palette) {
+      palette.addItem({
+        command: BrowserAICommandIDs.showMetrics,
+        category: 'Browser AI'
+      });
+    }
+  }
+};
@@ -0,0 +1,164 @@
+import type {
+  JupyterFrontEnd,
+  JupyterFrontEndPlugin
+} from '@jupyterlab/application';
+import { IFormRendererRegistry } from '@jupyterlab/ui-components';
+
+import type { FieldProps } from '@rjsf/utils';
+
+import React, { useState } from 'react';
+
+import { PLUGIN_ID, WEBLLM_CUSTOM_MODELS_SETTING } from './browser-ai-shared';
+import { formatBytes } from './model-storage';
+import {
+  getWebLLMChatModelRecords,
+  getWebLLMModelError,
+  getWebLLMModelInfo,
+  type IWebLLMModelInfo
+} from './webllm-models';
+
+/**
+ * The number of catalog models listed for a search.
+ */
+const MAX_CATALOG_RESULTS = 50;
+
+function formatModelDetails(info: IWebLLMModelInfo): string {
+  return [
+    info.parameters && `${info.parameters} parameters`,
+    info.quantization,
+    info.vramRequiredMB !== null &&
+      `${formatBytes(info.vramRequiredMB * 1024 * 1024)} VRAM`,
+    info.contextWindow !== null &&
+      `${info.contextWindow.toLocaleString()}-token context`,
+    info.lowResource && 'low resource',
+    info.vision && 'vision'
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * The "webLLMModels" setting, as the selected models with their details and a
+ * search in the WebLLM catalog, instead of a list of raw IDs.
+ */
+function WebLLMModelsField(props: FieldProps): JSX.Element {
+  const { formData, onChange, schema } = props;
+  const [query, setQuery] = useState('');
+
+  const selected: string[] = Array.isArray(formData)
+    ? formData.filter((item): item is string => typeof item === 'string')
+    : [];
+  const infos = new Map(
+    getWebLLMChatModelRecords().map(record => [
+      record.model_id,
+      getWebLLMModelInfo(record)
+    ])
+  );
+
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const results = [...infos.values()]
+    .filter(
+      info =>
+        !selected.includes(info.modelId) &&
+        terms.every(term => info.modelId.toLowerCase().includes(term))
+    )
+    .slice(0, MAX_CATALOG_RESULTS);
+
+  const setSelected = (modelIds: string[]) => onChange(modelIds);
+
+  return (
+    <fieldset className="jp-browser-ai-model-field">
+      <legend>{schema.title ?? props.name}</legend>
+      {schema.description && (
+        <p className="jp-browser-ai-model-field-description">
+          {schema.description}
+        </p>
+      )}
+      <ul className="jp-browser-ai-model-field-list">
+        {selected.map((modelId, index) => {
+          const info = infos.get(modelId);
+          const error = info ? null : getWebLLMModelError(modelId);
+          return (
+            <li key={modelId} className="jp-browser-ai-model-field-item">
+              <div className="jp-browser-ai-model-field-name">
+                <span>{modelId}</span>
+                {info && (
+                  <span className="jp-browser-ai-model-field-details">
+                    {formatModelDetails(info)}
+                  </span>
+                )}
+                {error && (
+                  <span className="jp-browser-ai-model-field-error">
+                    {error}
+                  </span>
+                )}
+              </div>
+              <button
+                className="jp-mod-styled jp-mod-reject"
+                disabled={props.disabled || props.readonly}
+                title={`Remove ${modelId}`}
+                onClick={() =>
+                  setSelected(selected.filter((_, i) => i !== index))
+                }
+              >
+                Remove
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <input
+        className="jp-mod-styled jp-browser-ai-model-field-search"
+        type="search"
+        placeholder="Search the WebLLM models, e.g. qwen q4f16"
+        value={query}
+        disabled={props.disabled || props.readonly}
+        onChange={event => setQuery(event.target.value)}
+      />
+      {terms.length > 0 && (
+        <ul className="jp-browser-ai-model-field-list">
+          {results.map(info => (
+            <li key={info.modelId} className="jp-browser-ai-model-field-item">
+              <div className="jp-browser-ai-model-field-name">
+                <span>{info.modelId}</span>
+                <span className="jp-browser-ai-model-field-details">
+                  {formatModelDetails(info)}
+                </span>
+              </div>
+              <button
+                className="jp-mod-styled jp-mod-accept"
+                title={`Add ${info.modelId}`}
+                onClick={() => setSelected([...selected, info.modelId])}
+              >
+                Add
+              </button>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="jp-browser-ai-model-field-details">
+              No matching WebLLM model.
+            </li>
+          )}
+        </ul>
+      )}
+    </fieldset>
+  );
+}
+
+/**
+ * Render the model settings with the model catalogs in the settings editor.
+ */
+export const modelSettingsPlugin: JupyterFrontEndPlugin<void> = {
+  id: 'jupyterlab-browser-ai:model-settings',
+  description: 'Model pickers for the Browser AI settings',
+  autoStart: true,
+  optional: [IFormRendererRegistry],
+  activate: (
+    app: JupyterFrontEnd,
+    formRegistry: IFormRendererRegistry | null
+  ) => {
+    formRegistry?.addRenderer(`${PLUGIN_ID}.${WEBLLM_CUSTOM_MODELS_SETTING}`, {
+      fieldRenderer: WebLLMModelsField
+    });
+  }
+};
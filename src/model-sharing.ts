@@ -0,0 +1,668 @@
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3StreamPart
+} from '@ai-sdk/provider';
+
+import { Notification } from '@jupyterlab/apputils';
+
+import { PromiseDelegate, UUID } from '@lumino/coreutils';
+import { ISignal, Signal } from '@lumino/signaling';
+
+import {
+  clearModelActivity,
+  getModelActivities,
+  modelActivityChanged,
+  setModelActivity,
+  type IModelActivity
+} from './model-activity';
+
+/**
+ * The lock held by the tab running the models of every tab of the origin.
+ */
+const LEADER_LOCK_NAME = 'jupyterlab-browser-ai-models';
+
+const CHANNEL_NAME = 'jupyterlab-browser-ai-models';
+
+/**
+ * How this tab runs models: in its own workers, for itself only or for every
+ * tab ("leader"), or in the workers of another tab ("follower").
+ */
+export type ModelSharingRole = 'standalone' | 'leader' | 'follower';
+
+/**
+ * What the leader tab runs for the other tabs.
+ */
+export interface ISharedModelHost {
+  getLanguageModel(backend: string, modelName: string): LanguageModelV3;
+  initializeModel(backend: string, modelName: string): Promise<void>;
+  cancelModelLoad(backend: string, modelName: string): boolean;
+}
+
+/**
+ * A notification about a model, shown in the tabs waiting for the model.
+ */
+export interface IModelNotice {
+  message: string;
+  type: 'info' | 'success' | 'warning' | 'error';
+  autoClose: number | false;
+  actions?: Array<{
+    label: string;
+    caption?: string;
+    callback: () => void | Promise<void>;
+  }>;
+}
+
+type SharedCallOptions = Omit<LanguageModelV3CallOptions, 'abortSignal'>;
+
+/**
+ * A notice sent to another tab, whose actions run in the leader tab.
+ */
+type SharedNotice = Omit<IModelNotice, 'actions'> & {
+  backend: string;
+  modelName: string;
+  actions: Array<{ id: string; label: string; caption?: string }>;
+};
+
+type SharedRequest =
+  | { method: 'load'; backend: string; modelName: string }
+  | { method: 'cancel'; backend: string; modelName: string }
+  | { method: 'action'; backend: string; modelName: string; actionId: string }
+  | {
+      method: 'generate' | 'stream';
+      backend: string;
+      modelName: string;
+      options: SharedCallOptions;
+    };
+
+type SharedActivity = Omit<IModelActivity, 'retry'>;
+
+/**
+ * The messages between the tabs.
+ */
+type SharingMessage =
+  | { type: 'leader'; tabId: string }
+  | { type: 'sync' }
+  | { type: 'activities'; activities: SharedActivity[] }
+  | { type: 'request'; id: string; tabId: string; request: SharedRequest }
+  | { type: 'notice'; tabId: string; notice: SharedNotice }
+  | { type: 'abort'; id: string }
+  | { type: 'response'; id: string; value: unknown }
+  | { type: 'part'; id: string; part: LanguageModelV3StreamPart }
+  | { type: 'done'; id: string }
+  | { type: 'error'; id: string; message: string };
+
+/**
+ * A request sent to the leader tab, waiting for its response.
+ */
+interface IPendingRequest {
+  leaderId: string | null;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  stream?: ReadableStreamDefaultController<LanguageModelV3StreamPart>;
+}
+
+const tabId = UUID.uuid4();
+
+let role: ModelSharingRole = 'standalone';
+let leaderId: string | null = null;
+let channel: BroadcastChannel | null = null;
+let host: ISharedModelHost | null = null;
+const roleReady = new PromiseDelegate<void>();
+const roleChanged = new Signal<unknown, ModelSharingRole>(tabId);
+
+/**
+ * A request of another tab, running in the leader tab.
+ */
+interface IServedRequest {
+  tabId: string;
+  backend: string;
+  modelName: string;
+  abort: AbortController;
+}
+
+const pendingRequests = new Map<string, IPendingRequest>();
+const servedRequests = new Map<string, IServedRequest>();
+const servedModels = new Map<string, LanguageModelV3>();
+
+/**
+ * The callbacks of the actions of the notices sent to other tabs.
+ */
+const noticeActions = new Map<string, () => void | Promise<void>>();
+
+/**
+ * The models of the leader shown in the status bar of this tab.
+ */
+const mirroredActivities = new Set<string>();
+
+/**
+ * A signal emitted when this tab starts or stops running the models of the
+ * other tabs.
+ */
+export const modelSharingRoleChanged: ISignal<unknown, ModelSharingRole> =
+  roleChanged;
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function post(message: SharingMessage): void {
+  channel?.postMessage(message);
+}
+
+/**
+ * Reply to a request, reporting values that cannot be sent to other tabs.
+ */
+function reply(message: SharingMessage & { id: string }): void {
+  try {
+    post(message);
+  } catch (error) {
+    post({ type: 'error', id: message.id, message: getErrorMessage(error) });
+  }
+}
+
+/**
+ * Whether the models run in another tab. Waits until the tabs agreed on
+ * which one runs them.
+ */
+export async function runsModelsInAnotherTab(): Promise<boolean> {
+  await roleReady.promise;
+  return role === 'follower';
+}
+
+/**
+ * How this tab runs models.
+ */
+export function getModelSharingRole(): ModelSharingRole {
+  return role;
+}
+
+function setRole(value: ModelSharingRole): void {
+  role = value;
+  roleReady.resolve();
+  roleChanged.emit(value);
+}
+
+function getServedModel(backend: string, modelName: string): LanguageModelV3 {
+  const key = JSON.stringify([backend, modelName]);
+  let model = servedModels.get(key);
+  if (!model) {
+    model = host!.getLanguageModel(backend, modelName);
+    servedModels.set(key, model);
+  }
+  return model;
+}
+
+/**
+ * Drop what cannot be sent to another tab from the result of a call, like
+ * the raw HTTP bodies.
+ */
+function toSharedResult<T extends { request?: unknown; response?: object }>(
+  result: T
+): T {
+  return {
+    ...result,
+    request: undefined,
+    response: result.response && { ...result.response, body: undefined }
+  };
+}
+
+/**
+ * Get a function sending a notice about a model to the tabs waiting for it
+ * in the leader tab, e.g. for a chat response. The function returns false
+ * when no other tab waits for the model, to show the notice in this tab.
+ */
+export function getModelNoticeForwarder(
+  backend: string,
+  modelName: string
+): (notice: IModelNotice) => boolean {
+  const tabIds = new Set<string>();
+  for (const request of servedRequests.values()) {
+    if (request.backend === backend && request.modelName === modelName) {
+      tabIds.add(request.tabId);
+    }
+  }
+
+  return ({ actions = [], ...notice }) => {
+    if (tabIds.size === 0) {
+      return false;
+    }
+
+    const sharedNotice: SharedNotice = {
+      ...notice,
+      backend,
+      modelName,
+      actions: actions.map(({ label, caption, callback }) => {
+        const id = UUID.uuid4();
+        noticeActions.set(id, callback);
+        return { id, label, caption };
+      })
+    };
+    for (const tabId of tabIds) {
+      post({ type: 'notice', tabId, notice: sharedNotice });
+    }
+    return true;
+  };
+}
+
+/**
+ * Show a notice of the leader tab, running its actions in the leader tab.
+ */
+function showNotice({
+  backend,
+  modelName,
+  message,
+  type,
+  autoClose,
+  actions
+}: SharedNotice): void {
+  Notification.emit(message, type, {
+    autoClose,
+    actions: actions.map(({ id, label, caption }) => ({
+      label,
+      caption,
+      callback: () => {
+        sendRequest({
+          method: 'action',
+          backend,
+          modelName,
+          actionId: id
+        }).response.catch(reason => {
+          console.error(`Failed to run "${label}" for "${modelName}"`, reason);
+        });
+      }
+    }))
+  });
+}
+
+/**
+ * Run a request of another tab, in the leader tab.
+ */
+async function serveRequest(
+  id: string,
+  requesterId: string,
+  request: SharedRequest
+): Promise<void> {
+  const abort = new AbortController();
+  servedRequests.set(id, {
+    tabId: requesterId,
+    backend: request.backend,
+    modelName: request.modelName,
+    abort
+  });
+  try {
+    if (request.method === 'load') {
+      await host!.initializeModel(request.backend, request.modelName);
+      reply({ type: 'response', id, value: null });
+      return;
+    }
+
+    if (request.method === 'cancel') {
+      const cancelled = host!.cancelModelLoad(
+        request.backend,
+        request.modelName
+      );
+      reply({ type: 'response', id, value: cancelled });
+      return;
+    }
+
+    if (request.method === 'action') {
+      const callback = noticeActions.get(request.actionId);
+      noticeActions.delete(request.actionId);
+      // Notices of the action are sent to the tab while it runs.
+      await callback?.();
+      reply({ type: 'response', id, value: null });
+      return;
+    }
+
+    const model = getServedModel(request.backend, request.modelName);
+    const options = { ...request.options, abortSignal: abort.signal };
+    if (request.method === 'generate') {
+      const result = await model.doGenerate(options);
+      reply({ type: 'response', id, value: toSharedResult(result) });
+      return;
+    }
+
+    const { stream, ...result } = await model.doStream(options);
+    reply({ type: 'response', id, value: toSharedResult(result) });
+    const reader = stream.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      if (abort.signal.aborted) {
+        await reader.cancel();
+        return;
+      }
+      if (value.type !== 'raw') {
+        reply({ type: 'part', id, part: value });
+      }
+    }
+    post({ type: 'done', id });
+  } catch (error) {
+    if (!abort.signal.aborted) {
+      post({ type: 'error', id, message: getErrorMessage(error) });
+    }
+  } finally {
+    servedRequests.delete(id);
+  }
+}
+
+/**
+ * Show the models of the leader in the status bar of this tab. Retrying a
+ * failed model asks the leader to load it again.
+ */
+function mirrorActivities(activities: SharedActivity[]): void {
+  const keys = new Set<string>();
+  for (const { backend, modelName, phase, progress, error } of activities) {
+    const key = JSON.stringify([backend, modelName]);
+    keys.add(key);
+    mirroredActivities.add(key);
+    setModelActivity(backend, modelName, phase, {
+      progress,
+      error,
+      retry: () => {
+        void initializeSharedModel(backend, modelName).catch(reason => {
+          console.error(`Failed to load "${modelName}"`, reason);
+        });
+      }
+    });
+  }
+  clearMirroredActivities(keys);
+}
+
+function clearMirroredActivities(keep = new Set<string>()): void {
+  for (const key of [...mirroredActivities]) {
+    if (!keep.has(key)) {
+      const [backend, modelName] = JSON.parse(key);
+      mirroredActivities.delete(key);
+      clearModelActivity(backend, modelName);
+    }
+  }
+}
+
+function broadcastActivities(): void {
+  if (role === 'leader') {
+    post({
+      type: 'activities',
+      activities: getModelActivities().map(
+        ({ backend, modelName, phase, progress, error }) => ({
+          backend,
+          modelName,
+          phase,
+          progress,
+          error
+        })
+      )
+    });
+  }
+}
+
+/**
+ * Fail the requests sent to a leader tab which was closed.
+ */
+function rejectOrphanedRequests(): void {
+  for (const [id, pending] of [...pendingRequests]) {
+    if (pending.leaderId !== leaderId) {
+      pendingRequests.delete(id);
+      const error = new Error(
+        'The browser tab running the in-browser models was closed. Send the message again.'
+      );
+      pending.reject(error);
+      pending.stream?.error(error);
+    }
+  }
+}
+
+function handleMessage(message: SharingMessage): void {
+  switch (message.type) {
+    case 'leader':
+      leaderId = message.tabId;
+      rejectOrphanedRequests();
+      return;
+    case 'sync':
+      broadcastActivities();
+      return;
+    case 'activities':
+      if (role === 'follower') {
+        mirrorActivities(message.activities);
+      }
+      return;
+    case 'request':
+      if (role === 'leader') {
+        void serveRequest(message.id, message.tabId, message.request);
+      }
+      return;
+    case 'abort':
+      servedRequests.get(message.id)?.abort.abort();
+      return;
+    case 'notice':
+      if (message.tabId === tabId) {
+        showNotice(message.notice);
+      }
+      return;
+  }
+
+  const pending = pendingRequests.get(message.id);
+  if (!pending) {
+    return;
+  }
+  switch (message.type) {
+    case 'response':
+      if (!pending.stream) {
+        pendingRequests.delete(message.id);
+      }
+      pending.resolve(message.value);
+      break;
+    case 'part':
+      pending.stream?.enqueue(message.part);
+      break;
+    case 'done':
+      pendingRequests.delete(message.id);
+      pending.stream?.close();
+      break;
+    case 'error': {
+      pendingRequests.delete(message.id);
+      const error = new Error(message.message);
+      pending.reject(error);
+      pending.stream?.error(error);
+      break;
+    }
+  }
+}
+
+/**
+ * Send a request to the leader tab.
+ */
+function sendRequest(
+  request: SharedRequest,
+  signal?: AbortSignal,
+  stream?: ReadableStreamDefaultController<LanguageModelV3StreamPart>
+): { id: string; response: Promise<unknown> } {
+  const id = UUID.uuid4();
+  const response = new Promise<unknown>((resolve, reject) => {
+    signal?.throwIfAborted();
+    pendingRequests.set(id, { leaderId, resolve, reject, stream });
+    signal?.addEventListener('abort', () => {
+      if (pendingRequests.delete(id)) {
+        post({ type: 'abort', id });
+        reject(signal.reason);
+        stream?.error(signal.reason);
+      }
+    });
+    post({ type: 'request', id, tabId, request });
+  });
+  return { id, response };
+}
+
+/**
+ * Load a model in the leader tab.
+ */
+export async function initializeSharedModel(
+  backend: string,
+  modelName: string
+): Promise<void> {
+  await sendRequest({ method: 'load', backend, modelName }).response;
+}
+
+/**
+ * Whether the status bar of this tab shows a model of the leader tab.
+ */
+export function isMirroredModel(backend: string, modelName: string): boolean {
+  return mirroredActivities.has(JSON.stringify([backend, modelName]));
+}
+
+/**
+ * Cancel the loading of a model in the leader tab. Resolves with false when
+ * the model is not loading.
+ */
+export async function cancelSharedModelLoad(
+  backend: string,
+  modelName: string
+): Promise<boolean> {
+  const { response } = sendRequest({ method: 'cancel', backend, modelName });
+  return (await response) === true;
+}
+
+/**
+ * A language model running in the leader tab when another tab leads, and
+ * running `localModel` otherwise.
+ *
+ * `prepareCall` prepares the calls sent to the leader tab in this tab, where
+ * the chat shows its warnings; `localModel` prepares its own calls.
+ */
+export function createSharedLanguageModel(
+  localModel: LanguageModelV3,
+  prepareCall?: (
+    callOptions: LanguageModelV3CallOptions
+  ) => Promise<LanguageModelV3CallOptions>
+): LanguageModelV3 {
+  const { provider: backend, modelId: modelName } = localModel;
+  const toSharedOptions = ({
+    abortSignal,
+    ...options
+  }: LanguageModelV3CallOptions): SharedCallOptions => options;
+  const prepareSharedCall = async (
+    callOptions: LanguageModelV3CallOptions
+  ): Promise<SharedCallOptions> =>
+    toSharedOptions(prepareCall ? await prepareCall(callOptions) : callOptions);
+
+  return {
+    specificationVersion: 'v3',
+    provider: backend,
+    modelId: modelName,
+    get supportedUrls() {
+      // Files are downloaded in this tab, and sent to the leader as data.
+      return role === 'follower' ? {} : localModel.supportedUrls;
+    },
+    doGenerate: async options => {
+      if (!(await runsModelsInAnotherTab())) {
+        return localModel.doGenerate(options);
+      }
+      const { response } = sendRequest(
+        {
+          method: 'generate',
+          backend,
+          modelName,
+          options: await prepareSharedCall(options)
+        },
+        options.abortSignal
+      );
+      return (await response) as Awaited<
+        ReturnType<LanguageModelV3['doGenerate']>
+      >;
+    },
+    doStream: async options => {
+      if (!(await runsModelsInAnotherTab())) {
+        return localModel.doStream(options);
+      }
+      const sharedOptions = await prepareSharedCall(options);
+      let controller!: ReadableStreamDefaultController<LanguageModelV3StreamPart>;
+      const stream = new ReadableStream<LanguageModelV3StreamPart>({
+        start: value => {
+          controller = value;
+        },
+        cancel: () => {
+          if (pendingRequests.delete(id)) {
+            post({ type: 'abort', id });
+          }
+        }
+      });
+      const { id, response } = sendRequest(
+        {
+          method: 'stream',
+          backend,
+          modelName,
+          options: sharedOptions
+        },
+        options.abortSignal,
+        controller
+      );
+      const result = (await response) as Omit<
+        Awaited<ReturnType<LanguageModelV3['doStream']>>,
+        'stream'
+      >;
+      return { ...result, stream };
+    }
+  };
+}
+
+/**
+ * Elect the tab running the models of every tab of the origin: the first
+ * tab holds a Web Lock until it is closed, and the next tab waiting for the
+ * lock takes over.
+ *
+ * Without Web Locks or BroadcastChannel, or with `enabled` false, every tab
+ * runs its own models.
+ */
+export async function startModelSharing(
+  modelHost: ISharedModelHost,
+  enabled: boolean
+): Promise<void> {
+  if (!enabled || typeof BroadcastChannel === 'undefined' || !navigator.locks) {
+    setRole('standalone');
+    return;
+  }
+
+  host = modelHost;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = event => handleMessage(event.data as SharingMessage);
+  modelActivityChanged.connect(broadcastActivities);
+
+  window.addEventListener('pagehide', () => {
+    for (const id of pendingRequests.keys()) {
+      post({ type: 'abort', id });
+    }
+  });
+
+  const lead = () => {
+    leaderId = tabId;
+    clearMirroredActivities();
+    rejectOrphanedRequests();
+    post({ type: 'leader', tabId });
+    setRole('leader');
+    broadcastActivities();
+    // Hold the lock until the tab is closed.
+    return new Promise<void>(() => undefined);
+  };
+
+  const acquired = await new Promise<boolean>(resolve => {
+    void navigator.locks.request(
+      LEADER_LOCK_NAME,
+      { ifAvailable: true },
+      lock => {
+        resolve(lock !== null);
+        return lock ? lead() : undefined;
+      }
+    );
+  });
+  if (acquired) {
+    return;
+  }
+
+  setRole('follower');
+  post({ type: 'sync' });
+  // Take over the models once the leader tab is closed.
+  void navigator.locks.request(LEADER_LOCK_NAME, lead);
+}
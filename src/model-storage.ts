@@ -0,0 +1,905 @@
+import {
+  ILayoutRestorer,
+  JupyterFrontEnd,
+  JupyterFrontEndPlugin
+} from '@jupyterlab/application';
+
+import {
+  Dialog,
+  ICommandPalette,
+  Notification,
+  showDialog
+} from '@jupyterlab/apputils';
+import { ISettingRegistry } from '@jupyterlab/settingregistry';
+import { listIcon } from '@jupyterlab/ui-components';
+
+import { Widget } from '@lumino/widgets';
+
+import { deleteModelAllInfoInCache, hasModelInCache } from '@mlc-ai/web-llm';
+
+import { CacheManager, type CacheEntry } from '@wllama/wllama/esm/index.js';
+
+import {
+  BrowserAIBackendId,
+  BrowserAICommandIDs,
+  getUserConfiguredModelNames,
+  PLUGIN_ID
+} from './browser-ai-shared';
+import { getLlamaCppModelSource, getLlamaCppModelUrl } from './llamacpp-models';
+import {
+  IBrowserAIBackend,
+  IBrowserAIBackendRegistry,
+  IBrowserAICachedModel
+} from './tokens';
+import { getTransformersModelIdFromUrl } from './transformers-models';
+import {
+  getWebLLMAppConfig,
+  getWebLLMModelBaseUrl,
+  getWebLLMWeightShards,
+  WEBLLM_MODEL_CACHE_NAME
+} from './webllm-models';
+
+/**
+ * A model with weights stored in the browser cache.
+ */
+export interface ICachedModelInfo extends IBrowserAICachedModel {
+  backend: string;
+  lastUsed: number | null;
+  configured: boolean;
+}
+
+const WEBLLM_CACHE_NAMES = [
+  WEBLLM_MODEL_CACHE_NAME,
+  'webllm/config',
+  'webllm/wasm'
+];
+const TRANSFORMERS_CACHE_NAME = 'transformers-cache';
+const MODEL_USAGE_STORAGE_KEY = 'jupyterlab-browser-ai:model-usage';
+
+/**
+ * Record that a model was used, so the storage panel can show when each
+ * cached model was last needed.
+ */
+export function recordModelUsage(backend: string, modelId: string): void {
+  const usage = readModelUsage();
+  usage[`${backend}:${modelId}`] = Date.now();
+
+  try {
+    window.localStorage.setItem(MODEL_USAGE_STORAGE_KEY, JSON.stringify(usage));
+  } catch (error) {
+    console.warn('Failed to record model usage', error);
+  }
+}
+
+function readModelUsage(): Record<string, number> {
+  try {
+    const rawUsage = window.localStorage.getItem(MODEL_USAGE_STORAGE_KEY);
+    const usage = rawUsage ? JSON.parse(rawUsage) : {};
+    return usage && typeof usage === 'object' ? usage : {};
+  } catch {
+    return {};
+  }
+}
+
+function forgetModelUsage(backend: string, modelId?: string) {
+  const usage = readModelUsage();
+  for (const key of Object.keys(usage)) {
+    if (
+      modelId === undefined
+        ? key.startsWith(`${backend}:`)
+        : key === `${backend}:${modelId}`
+    ) {
+      delete usage[key];
+    }
+  }
+
+  try {
+    window.localStorage.setItem(MODEL_USAGE_STORAGE_KEY, JSON.stringify(usage));
+  } catch (error) {
+    console.warn('Failed to update model usage', error);
+  }
+}
+
+/**
+ * Format a number of bytes for display.
+ */
+export function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes <= 0) {
+    return '0 B';
+  }
+
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(1024)),
+    units.length - 1
+  );
+  const value = bytes / Math.pow(1024, exponent);
+
+  return `${value.toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+}
+
+function doesBrowserSupportCacheStorage(): boolean {
+  return typeof window !== 'undefined' && 'caches' in window;
+}
+
+async function getResponseSize(response: Response): Promise<number> {
+  const contentLength = Number(response.headers.get('content-length'));
+  if (Number.isFinite(contentLength) && contentLength > 0) {
+    return contentLength;
+  }
+
+  return (await response.blob()).size;
+}
+
+async function getCachedResponseSize(
+  cache: Cache,
+  request: Request
+): Promise<number> {
+  const response = await cache.match(request);
+  return response ? getResponseSize(response) : 0;
+}
+
+function isWebLLMModelId(modelId: string): boolean {
+  return getWebLLMAppConfig().model_list.some(
+    record => record.model_id === modelId
+  );
+}
+
+/**
+ * The URL grouping the cached files of a WebLLM model that is not in the app
+ * config: the `resolve/<revision>/` URL of its weights, or the URL of its
+ * library.
+ */
+function getWebLLMCachedFilesUrl(url: string): string {
+  return url.match(/^.+?\/resolve\/[^/]+\//)?.[0] ?? url;
+}
+
+async function listWebLLMCacheSizes(): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+  const records = getWebLLMAppConfig().model_list;
+
+  for (const cacheName of WEBLLM_CACHE_NAMES) {
+    if (!(await caches.has(cacheName))) {
+      continue;
+    }
+
+    const cache = await caches.open(cacheName);
+    for (const request of await cache.keys()) {
+      const owners = records.filter(
+        record =>
+          request.url.startsWith(getWebLLMModelBaseUrl(record.model)) ||
+          request.url === record.model_lib
+      );
+      const size = await getCachedResponseSize(cache, request);
+      // Files of models removed from the settings are listed by URL.
+      if (owners.length === 0) {
+        const url = getWebLLMCachedFilesUrl(request.url);
+        sizes.set(url, (sizes.get(url) ?? 0) + size);
+        continue;
+      }
+
+      for (const record of owners) {
+        sizes.set(record.model_id, (sizes.get(record.model_id) ?? 0) + size);
+      }
+    }
+  }
+
+  return sizes;
+}
+
+async function listTransformersCacheSizes(): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+
+  if (!(await caches.has(TRANSFORMERS_CACHE_NAME))) {
+    return sizes;
+  }
+
+  const cache = await caches.open(TRANSFORMERS_CACHE_NAME);
+  for (const request of await cache.keys()) {
+    const modelId = getTransformersModelIdFromUrl(request.url);
+    if (!modelId) {
+      continue;
+    }
+
+    const size = await getCachedResponseSize(cache, request);
+    sizes.set(modelId, (sizes.get(modelId) ?? 0) + size);
+  }
+
+  return sizes;
+}
+
+/**
+ * The URL of the first file of a GGUF model split into several files, which
+ * identifies the model. Other URLs are returned unchanged.
+ */
+function getLlamaCppFirstFileUrl(url: string): string {
+  return url.replace(/-\d{5}-of-(\d{5})\.gguf$/i, '-00001-of-$1.gguf');
+}
+
+/**
+ * The files of a llama.cpp model in the cache of wllama, which stores them in
+ * the origin private file system rather than in Cache Storage.
+ */
+async function getLlamaCppCacheEntries(modelId: string): Promise<CacheEntry[]> {
+  const source = getLlamaCppModelSource(modelId);
+  if (!source) {
+    return [];
+  }
+
+  const url = getLlamaCppFirstFileUrl(await getLlamaCppModelUrl(source));
+  return (await new CacheManager().list()).filter(
+    entry => getLlamaCppFirstFileUrl(entry.metadata.originalURL) === url
+  );
+}
+
+async function listLlamaCppCacheSizes(
+  configuredModelNames: string[]
+): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+  const entries = await new CacheManager().list();
+  if (entries.length === 0) {
+    return sizes;
+  }
+
+  // Show the files of configured models under their model ID, and the others
+  // under their URL, which is a valid model ID too.
+  const modelIds = new Map<string, string>();
+  for (const modelId of configuredModelNames) {
+    const source = getLlamaCppModelSource(modelId);
+    if (!source) {
+      continue;
+    }
+    try {
+      const url = await getLlamaCppModelUrl(source);
+      modelIds.set(getLlamaCppFirstFileUrl(url), modelId);
+    } catch {
+      // Hugging Face references cannot be resolved offline.
+    }
+  }
+
+  for (const entry of entries) {
+    const url = getLlamaCppFirstFileUrl(entry.metadata.originalURL);
+    if (!url) {
+      continue;
+    }
+    const modelId = modelIds.get(url) ?? url;
+    sizes.set(modelId, (sizes.get(modelId) ?? 0) + entry.size);
+  }
+
+  return sizes;
+}
+
+/**
+ * List the models of a built-in backend that have weights in the browser
+ * cache.
+ */
+export async function listCachedModels(
+  backend: BrowserAIBackendId,
+  configuredModelNames: string[] = []
+): Promise<IBrowserAICachedModel[]> {
+  let sizes: Map<string, number>;
+  if (backend === 'llama-cpp') {
+    try {
+      sizes = await listLlamaCppCacheSizes(configuredModelNames);
+    } catch (error) {
+      console.warn('Failed to list the cached llama.cpp models', error);
+      return [];
+    }
+  } else if (!doesBrowserSupportCacheStorage()) {
+    return [];
+  } else {
+    sizes =
+      backend === 'web-llm'
+        ? await listWebLLMCacheSizes()
+        : await listTransformersCacheSizes();
+  }
+
+  return [...sizes.entries()].map(([modelId, sizeBytes]) => ({
+    modelId,
+    sizeBytes,
+    removed: backend === 'web-llm' && !isWebLLMModelId(modelId)
+  }));
+}
+
+/**
+ * Whether a model has weights in the browser cache.
+ */
+export async function isModelCached(
+  backend: BrowserAIBackendId,
+  modelId: string
+): Promise<boolean> {
+  if (backend === 'llama-cpp') {
+    try {
+      return (await getLlamaCppCacheEntries(modelId)).some(
+        entry => entry.size > 0
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  if (!doesBrowserSupportCacheStorage()) {
+    return false;
+  }
+
+  if (backend === 'web-llm') {
+    return hasModelInCache(modelId, getWebLLMAppConfig());
+  }
+
+  if (!(await caches.has(TRANSFORMERS_CACHE_NAME))) {
+    return false;
+  }
+
+  const cache = await caches.open(TRANSFORMERS_CACHE_NAME);
+  return (await cache.keys()).some(
+    request => getTransformersModelIdFromUrl(request.url) === modelId
+  );
+}
+
+/**
+ * Whether the cached files of a model are complete. The browser may evict
+ * storage while a model downloads, leaving missing or truncated weights.
+ */
+export async function verifyCachedModel(
+  backend: BrowserAIBackendId,
+  modelId: string
+): Promise<boolean> {
+  if (backend === 'llama-cpp') {
+    const entries = await getLlamaCppCacheEntries(modelId);
+    if (entries.length === 0) {
+      return true;
+    }
+
+    // Models split into several files name their number of files.
+    const fileCount = Number(
+      entries[0].metadata.originalURL.match(/-of-(\d{5})\.gguf$/i)?.[1] ?? 1
+    );
+    return (
+      entries.length === fileCount &&
+      entries.every(
+        ({ size, metadata }) =>
+          !(metadata.originalSize > 0) || size === metadata.originalSize
+      )
+    );
+  }
+
+  if (!doesBrowserSupportCacheStorage()) {
+    return true;
+  }
+
+  if (backend === 'web-llm') {
+    const shards = await getWebLLMWeightShards(modelId, true);
+    if (!shards || !(await caches.has(WEBLLM_MODEL_CACHE_NAME))) {
+      return true;
+    }
+
+    const cache = await caches.open(WEBLLM_MODEL_CACHE_NAME);
+    for (const shard of shards) {
+      const response = await cache.match(shard.url);
+      if (!response || (await getResponseSize(response)) !== shard.nbytes) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (!(await caches.has(TRANSFORMERS_CACHE_NAME))) {
+    return true;
+  }
+
+  // Transformers.js stores the responses with their original headers.
+  const cache = await caches.open(TRANSFORMERS_CACHE_NAME);
+  for (const request of await cache.keys()) {
+    if (getTransformersModelIdFromUrl(request.url) !== modelId) {
+      continue;
+    }
+    const response = await cache.match(request);
+    const contentLength = Number(response?.headers.get('content-length'));
+    if (
+      response &&
+      contentLength > 0 &&
+      (await response.blob()).size !== contentLength
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Delete the cached weights of a single model.
+ */
+export async function deleteCachedModel(
+  backend: BrowserAIBackendId,
+  modelId: string
+): Promise<void> {
+  if (backend === 'llama-cpp') {
+    const cacheManager = new CacheManager();
+    for (const entry of await getLlamaCppCacheEntries(modelId)) {
+      await cacheManager.delete(entry.name);
+    }
+    return;
+  }
+
+  if (!doesBrowserSupportCacheStorage()) {
+    return;
+  }
+
+  if (backend === 'web-llm' && isWebLLMModelId(modelId)) {
+    await deleteModelAllInfoInCache(modelId, getWebLLMAppConfig());
+  } else if (backend === 'web-llm') {
+    for (const cacheName of WEBLLM_CACHE_NAMES) {
+      if (!(await caches.has(cacheName))) {
+        continue;
+      }
+      const cache = await caches.open(cacheName);
+      for (const request of await cache.keys()) {
+        if (getWebLLMCachedFilesUrl(request.url) === modelId) {
+          await cache.delete(request);
+        }
+      }
+    }
+  } else if (await caches.has(TRANSFORMERS_CACHE_NAME)) {
+    const cache = await caches.open(TRANSFORMERS_CACHE_NAME);
+    for (const request of await cache.keys()) {
+      if (getTransformersModelIdFromUrl(request.url) === modelId) {
+        await cache.delete(request);
+      }
+    }
+  }
+}
+
+/**
+ * Delete every cached model of a backend.
+ */
+export async function clearBackendCache(
+  backend: BrowserAIBackendId
+): Promise<void> {
+  if (backend === 'llama-cpp') {
+    await new CacheManager().clear();
+    return;
+  }
+
+  if (!doesBrowserSupportCacheStorage()) {
+    return;
+  }
+
+  const cacheNames =
+    backend === 'web-llm' ? WEBLLM_CACHE_NAMES : [TRANSFORMERS_CACHE_NAME];
+  for (const cacheName of cacheNames) {
+    await caches.delete(cacheName);
+  }
+}
+
+/**
+ * Get the storage usage and quota of the origin, if the browser exposes them.
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  try {
+    return await navigator.storage.estimate();
+  } catch (error) {
+    console.warn('Failed to estimate storage usage', error);
+    return null;
+  }
+}
+
+/**
+ * List the cached models of a registered backend with their usage.
+ */
+async function listBackendCachedModels(
+  backend: IBrowserAIBackend,
+  configuredModelNames: string[]
+): Promise<ICachedModelInfo[]> {
+  let models: IBrowserAICachedModel[] = [];
+  try {
+    models = (await backend.listCachedModels?.(configuredModelNames)) ?? [];
+  } catch (error) {
+    console.warn(`Failed to list the cached ${backend.name} models`, error);
+  }
+  const usage = readModelUsage();
+
+  return models
+    .map(({ modelId, sizeBytes, removed }) => ({
+      backend: backend.id,
+      modelId,
+      sizeBytes,
+      removed,
+      lastUsed: usage[`${backend.id}:${modelId}`] ?? null,
+      configured: configuredModelNames.includes(modelId)
+    }))
+    .sort((a, b) => b.sizeBytes - a.sizeBytes);
+}
+
+/**
+ * A sidebar panel listing the models cached by each in-browser backend.
+ */
+class ModelStoragePanel extends Widget {
+  constructor(options: ModelStoragePanel.IOptions) {
+    super();
+    this._backendRegistry = options.backendRegistry;
+    this._commands = options.commands;
+    this._getConfiguredModelNames = options.getConfiguredModelNames;
+    this._backendRegistry.changed.connect(() => {
+      if (this.isVisible) {
+        void this.refresh();
+      }
+    });
+    this.addClass('jp-browser-ai-storage-panel');
+    this.id = 'jp-browser-ai-model-storage';
+    this.title.icon = listIcon;
+    this.title.caption = 'Browser AI Model Storage';
+  }
+
+  /**
+   * Refresh the cached model listing and the storage estimate.
+   */
+  async refresh(): Promise<void> {
+    const estimate = await getStorageEstimate();
+    const sections: Array<[IBrowserAIBackend, ICachedModelInfo[]]> = [];
+
+    for (const backend of this._backendRegistry.backends) {
+      if (!backend.listCachedModels) {
+        continue;
+      }
+      const configured = await this._getConfiguredModelNames(backend);
+      sections.push([
+        backend,
+        await listBackendCachedModels(backend, configured)
+      ]);
+    }
+
+    this._render(estimate, sections);
+  }
+
+  protected onAfterShow(): void {
+    void this.refresh();
+  }
+
+  private _render(
+    estimate: StorageEstimate | null,
+    sections: Array<[IBrowserAIBackend, ICachedModelInfo[]]>
+  ): void {
+    const node = this.node;
+    node.replaceChildren();
+
+    const header = document.createElement('div');
+    header.className = 'jp-browser-ai-storage-header';
+
+    const title = document.createElement('h2');
+    title.textContent = 'Model Storage';
+    header.appendChild(title);
+    header.appendChild(
+      this._createButton('Refresh', () => {
+        void this.refresh();
+      })
+    );
+    node.appendChild(header);
+
+    node.appendChild(this._renderQuota(estimate));
+
+    for (const [backend, models] of sections) {
+      node.appendChild(this._renderBackend(backend, models));
+    }
+  }
+
+  private _renderQuota(estimate: StorageEstimate | null): HTMLElement {
+    const quota = document.createElement('div');
+    quota.className = 'jp-browser-ai-storage-quota';
+
+    if (!estimate || !estimate.quota) {
+      quota.textContent = 'Storage quota is not available in this browser.';
+      return quota;
+    }
+
+    const usage = estimate.usage ?? 0;
+    const ratio = Math.min(1, usage / estimate.quota);
+
+    const label = document.createElement('div');
+    label.textContent = `Using ${formatBytes(usage)} of ${formatBytes(
+      estimate.quota
+    )} (${Math.round(ratio * 100)}%)`;
+    quota.appendChild(label);
+
+    const progress = document.createElement('progress');
+    progress.max = 1;
+    progress.value = ratio;
+    quota.appendChild(progress);
+
+    return quota;
+  }
+
+  private _renderBackend(
+    backend: IBrowserAIBackend,
+    models: ICachedModelInfo[]
+  ): HTMLElement {
+    const section = document.createElement('section');
+    section.className = 'jp-browser-ai-storage-backend';
+
+    const header = document.createElement('div');
+    header.className = 'jp-browser-ai-storage-header';
+
+    const title = document.createElement('h3');
+    const totalSize = models.reduce(
+      (total, model) => total + model.sizeBytes,
+      0
+    );
+    title.textContent = `${backend.name} (${formatBytes(totalSize)})`;
+    header.appendChild(title);
+
+    const clearButton = this._createButton('Clear all', () => {
+      void this._commands.execute(BrowserAICommandIDs.clearModelCache, {
+        backend: backend.id
+      });
+    });
+    clearButton.disabled = models.length === 0 || !backend.clearModelCache;
+    header.appendChild(clearButton);
+    section.appendChild(header);
+
+    if (models.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'jp-browser-ai-storage-empty';
+      empty.textContent = 'No cached models.';
+      section.appendChild(empty);
+      return section;
+    }
+
+    const list = document.createElement('ul');
+    list.className = 'jp-browser-ai-storage-list';
+
+    for (const model of models) {
+      const item = document.createElement('li');
+      item.className = 'jp-browser-ai-storage-item';
+
+      const name = document.createElement('div');
+      name.className = 'jp-browser-ai-storage-model';
+      name.textContent = model.modelId;
+      name.title = model.modelId;
+      item.appendChild(name);
+
+      const details = document.createElement('div');
+      details.className = 'jp-browser-ai-storage-details';
+      details.textContent = [
+        formatBytes(model.sizeBytes),
+        model.lastUsed
+          ? `last used ${new Date(model.lastUsed).toLocaleString()}`
+          : 'never used',
+        model.removed
+          ? 'unknown or removed model'
+          : model.configured
+            ? 'in settings'
+            : 'not in settings'
+      ].join(' · ');
+      item.appendChild(details);
+
+      item.appendChild(
+        this._createButton('Delete', () => {
+          void this._commands.execute(BrowserAICommandIDs.deleteCachedModel, {
+            backend: backend.id,
+            modelId: model.modelId
+          });
+        })
+      );
+
+      list.appendChild(item);
+    }
+
+    section.appendChild(list);
+    return section;
+  }
+
+  private _createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'jp-mod-styled jp-browser-ai-storage-button';
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private _backendRegistry: IBrowserAIBackendRegistry;
+  private _commands: JupyterFrontEnd['commands'];
+  private _getConfiguredModelNames: (
+    backend: IBrowserAIBackend
+  ) => Promise<string[]>;
+}
+
+namespace ModelStoragePanel {
+  export interface IOptions {
+    backendRegistry: IBrowserAIBackendRegistry;
+    commands: JupyterFrontEnd['commands'];
+    getConfiguredModelNames: (backend: IBrowserAIBackend) => Promise<string[]>;
+  }
+}
+
+/**
+ * A plugin providing a sidebar panel to inspect and reclaim the storage used
+ * by the models of the registered in-browser backends.
+ */
+export const modelStoragePlugin: JupyterFrontEndPlugin<void> = {
+  id: 'jupyterlab-browser-ai:model-storage',
+  description: 'Manage model weights cached by in-browser AI backends',
+  autoStart: true,
+  requires: [IBrowserAIBackendRegistry],
+  optional: [ISettingRegistry, ICommandPalette, ILayoutRestorer],
+  activate: (
+    app: JupyterFrontEnd,
+    backendRegistry: IBrowserAIBackendRegistry,
+    settingRegistry: ISettingRegistry | null,
+    palette: ICommandPalette | null,
+    restorer: ILayoutRestorer | null
+  ) => {
+    if (!doesBrowserSupportCacheStorage()) {
+      console.log('Cache Storage not supported in this browser');
+      return;
+    }
+
+    const getConfiguredModelNames = async (
+      backend: IBrowserAIBackend
+    ): Promise<string[]> => {
+      if (!settingRegistry) {
+        return [];
+      }
+
+      const pluginId = backend.settings.pluginId ?? PLUGIN_ID;
+      try {
+        const settings = await settingRegistry.load(pluginId);
+        const composite = settings.composite as Record<string, unknown>;
+        return getUserConfiguredModelNames(composite[backend.settings.key]);
+      } catch (reason) {
+        console.error(`Failed to load settings for ${pluginId}.`, reason);
+        return [];
+      }
+    };
+    const getBackend = (id: unknown): IBrowserAIBackend | undefined =>
+      typeof id === 'string' ? backendRegistry.get(id) : undefined;
+
+    const panel = new ModelStoragePanel({
+      backendRegistry,
+      commands: app.commands,
+      getConfiguredModelNames
+    });
+    app.shell.add(panel, 'left', { rank: 900 });
+
+    if (restorer) {
+      restorer.add(panel, panel.id);
+    }
+
+    app.commands.addCommand(BrowserAICommandIDs.openModelStorage, {
+      label: 'Browser AI: Manage Model Storage',
+      caption: 'Show the models cached by in-browser AI backends',
+      icon: listIcon,
+      execute: () => {
+        app.shell.activateById(panel.id);
+      }
+    });
+
+    app.commands.addCommand(BrowserAICommandIDs.deleteCachedModel, {
+      label: args =>
+        args.modelId
+          ? `Delete Cached Model ${args.modelId}`
+          : 'Delete Cached Model',
+      execute: async args => {
+        const backend = getBackend(args.backend);
+        const { modelId } = args;
+        if (!backend?.deleteModelCache || typeof modelId !== 'string') {
+          return;
+        }
+
+        const result = await showDialog({
+          title: 'Delete cached model',
+          body: `Delete the cached weights of ${modelId}? The model will be downloaded again the next time it is used.`,
+          buttons: [
+            Dialog.cancelButton(),
+            Dialog.warnButton({ label: 'Delete' })
+          ]
+        });
+        if (!result.button.accept) {
+          return;
+        }
+
+        try {
+          await backend.deleteModelCache(modelId);
+          forgetModelUsage(backend.id, modelId);
+          Notification.emit(`Deleted cached weights of ${modelId}`, 'success', {
+            autoClose: 3000
+          });
+        } catch (error) {
+          console.error(`Failed to delete cached model "${modelId}"`, error);
+          Notification.emit(
+            `Failed to delete ${modelId}: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+            'error',
+            { autoClose: 5000 }
+          );
+        }
+
+        await panel.refresh();
+      },
+      describedBy: {
+        args: {
+          type: 'object',
+          properties: {
+            backend: { type: 'string' },
+            modelId: { type: 'string' }
+          },
+          required: ['backend', 'modelId']
+        }
+      }
+    });
+
+    app.commands.addCommand(BrowserAICommandIDs.clearModelCache, {
+      label: args => {
+        const backend = getBackend(args.backend);
+        return backend
+          ? `Clear ${backend.name} Model Cache`
+          : 'Clear Model Cache';
+      },
+      execute: async args => {
+        const backend = getBackend(args.backend);
+        const backends = (
+          backend ? [backend] : backendRegistry.backends
+        ).filter(backend => backend.clearModelCache);
+        if (backends.length === 0) {
+          return;
+        }
+        const label = backends.map(backend => backend.name).join(' and ');
+
+        const result = await showDialog({
+          title: 'Clear model cache',
+          body: `Delete every cached ${label} model? Models will be downloaded again the next time they are used.`,
+          buttons: [
+            Dialog.cancelButton(),
+            Dialog.warnButton({ label: 'Clear' })
+          ]
+        });
+        if (!result.button.accept) {
+          return;
+        }
+
+        try {
+          for (const backend of backends) {
+            await backend.clearModelCache?.();
+            forgetModelUsage(backend.id);
+          }
+          Notification.emit(`Cleared ${label} model cache`, 'success', {
+            autoClose: 3000
+          });
+        } catch (error) {
+          console.error('Failed to clear model cache', error);
+          Notification.emit(
+            `Failed to clear model cache: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+            'error',
+            { autoClose: 5000 }
+          );
+        }
+
+        await panel.refresh();
+      },
+      describedBy: {
+        args: {
+          type: 'object',
+          properties: {
+            backend: { type: 'string' }
+          }
+        }
+      }
+    });
+
+    if (palette) {
+      palette.addItem({
+        command: BrowserAICommandIDs.openModelStorage,
+        category: 'Browser AI'
+      });
+      palette.addItem({
+        command: BrowserAICommandIDs.clearModelCache,
+        category: 'Browser AI'
+      });
+    }
+  }
+};
@@ -0,0 +1,389 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+import type { IOutputAreaModel } from '@jupyterlab/outputarea';
+
+import type {
+  PartialJSONObject,
+  ReadonlyPartialJSONObject
+} from '@lumino/coreutils';
+
+/**
+ * An image referenced in the source of a markdown cell.
+ */
+export interface IMarkdownImage {
+  /**
+   * `![alt](src)` markdown or an `<img>` HTML tag.
+   */
+  syntax: 'markdown' | 'html';
+  src: string;
+  alt: string;
+  /**
+   * The range of the whole image in the source.
+   */
+  start: number;
+  end: number;
+  /**
+   * The range of the alt text in the source. For `<img>` tags without an alt
+   * attribute, both are where the attribute is inserted; for an `alt`
+   * attribute without a value, they are the range of its name.
+   */
+  altStart: number;
+  altEnd: number;
+  /**
+   * How the alt attribute of an `<img>` tag is written.
+   */
+  altAttribute?: 'quoted' | 'unquoted' | 'valueless' | 'missing';
+}
+
+/**
+ * `![alt](src "title")`, with the source optionally in angle brackets.
+ */
+const MARKDOWN_IMAGE_REGEX =
+  /!\[((?:\\.|[^\\\]])*)\]\(\s*(<[^>\n]*>|[^\s)]+)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g;
+
+const HTML_IMAGE_REGEX = /<img\b[^>]*>/gi;
+
+const HTML_ATTRIBUTE_REGEX =
+  /\s([\w-]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'>]+))?/g;
+
+/**
+ * An inline code span, closed by a backtick string of the same length and not
+ * crossing a blank line.
+ */
+const INLINE_CODE_REGEX =
+  /(?<!`)(`+)(?!`)((?:(?!\n[ \t]*\n)[\s\S])+?)(?<!`)\1(?!`)/g;
+
+const FENCED_CODE_REGEX =
+  /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[^\n]*$|(?![\s\S]))/gm;
+
+/**
+ * Alt texts which do not describe the image, e.g. the file name JupyterLab
+ * uses for pasted attachments.
+ */
+const PLACEHOLDER_ALT_TEXTS = new Set([
+  'alt',
+  'alt text',
+  'figure',
+  'image',
+  'img',
+  'photo',
+  'picture',
+  'placeholder',
+  'screenshot',
+  'todo',
+  'untitled'
+]);
+
+/**
+ * Every match of a global regular expression.
+ */
+function matchAll(text: string, regex: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  const globalRegex = new RegExp(regex.source, regex.flags);
+  let match: RegExpExecArray | null;
+  while ((match = globalRegex.exec(text)) !== null) {
+    matches.push(match);
+    if (match[0] === '') {
+      globalRegex.lastIndex++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * The ranges of the fenced code blocks and inline code spans of a markdown
+ * source, where images are not rendered.
+ */
+function getCodeRanges(source: string): Array<[number, number]> {
+  const ranges = matchAll(source, FENCED_CODE_REGEX).map(
+    (match): [number, number] => [match.index, match.index + match[0].length]
+  );
+  // Blank the fenced blocks, so their backticks do not open code spans.
+  let text = source;
+  for (const [start, end] of ranges) {
+    text = text.slice(0, start) + ' '.repeat(end - start) + text.slice(end);
+  }
+  for (const match of matchAll(text, INLINE_CODE_REGEX)) {
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\([\\[\]])/g, '$1');
+}
+
+function decodeHtmlAttribute(value: string): string {
+  const textarea = document.createElement('textarea');
+  textarea.innerHTML = value;
+  return textarea.value;
+}
+
+function findHtmlImage(match: RegExpExecArray): IMarkdownImage {
+  const tag = match[0];
+  const start = match.index;
+  let src = '';
+  let hasSrc = false;
+  let alt: Pick<
+    IMarkdownImage,
+    'alt' | 'altStart' | 'altEnd' | 'altAttribute'
+  > | null = null;
+
+  // Like the HTML parser, keep the first of repeated attributes.
+  for (const attribute of matchAll(tag, HTML_ATTRIBUTE_REGEX)) {
+    const [text, name, rawValue] = attribute;
+    const quoted = /^["']/.test(rawValue ?? '');
+    const value = quoted ? rawValue.slice(1, -1) : (rawValue ?? '');
+    if (name.toLowerCase() === 'src' && !hasSrc) {
+      hasSrc = true;
+      src = decodeHtmlAttribute(value);
+    } else if (name.toLowerCase() === 'alt' && !alt) {
+      const attributeEnd = start + attribute.index + text.length;
+      if (rawValue === undefined) {
+        alt = {
+          alt: '',
+          altStart: attributeEnd - name.length,
+          altEnd: attributeEnd,
+          altAttribute: 'valueless'
+        };
+      } else {
+        const valueEnd = attributeEnd - (quoted ? 1 : 0);
+        alt = {
+          alt: decodeHtmlAttribute(value),
+          altStart: valueEnd - value.length,
+          altEnd: valueEnd,
+          altAttribute: quoted ? 'quoted' : 'unquoted'
+        };
+      }
+    }
+  }
+
+  // Without an alt attribute, it is inserted right after `<img`.
+  const insertAt = start + '<img'.length;
+  return {
+    syntax: 'html',
+    src,
+    start,
+    end: start + tag.length,
+    ...(alt ?? {
+      alt: '',
+      altStart: insertAt,
+      altEnd: insertAt,
+      altAttribute: 'missing'
+    })
+  };
+}
+
+/**
+ * Find the images of a markdown source, in order, outside of code blocks and
+ * code spans.
+ */
+export function findMarkdownImages(source: string): IMarkdownImage[] {
+  const codeRanges = getCodeRanges(source);
+  const isInCode = (index: number) =>
+    codeRanges.some(([start, end]) => index >= start && index < end);
+
+  const images: IMarkdownImage[] = [];
+  for (const match of matchAll(source, MARKDOWN_IMAGE_REGEX)) {
+    const [text, rawAlt, rawSrc] = match;
+    const start = match.index;
+    images.push({
+      syntax: 'markdown',
+      src: rawSrc.replace(/^<|>$/g, ''),
+      alt: unescapeMarkdown(rawAlt),
+      start,
+      end: start + text.length,
+      altStart: start + 2,
+      altEnd: start + 2 + rawAlt.length
+    });
+  }
+  for (const match of matchAll(source, HTML_IMAGE_REGEX)) {
+    images.push(findHtmlImage(match));
+  }
+
+  return images
+    .filter(image => !isInCode(image.start))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Whether an alt text is missing or does not describe the image.
+ */
+export function isPlaceholderAltText(alt: string, src: string): boolean {
+  const text = alt.trim().toLowerCase();
+  if (text === '' || PLACEHOLDER_ALT_TEXTS.has(text)) {
+    return true;
+  }
+
+  let fileName =
+    src
+      .replace(/^attachment:/, '')
+      .split(/[?#]/)[0]
+      .split('/')
+      .pop() ?? '';
+  try {
+    fileName = decodeURIComponent(fileName);
+  } catch {
+    // Keep the file name as is.
+  }
+  fileName = fileName.toLowerCase();
+  return (
+    text === fileName ||
+    /\.(apng|avif|bmp|gif|ico|jpe?g|png|svg|tiff?|webp)$/.test(text)
+  );
+}
+
+/**
+ * A replacement of a range of a cell source.
+ */
+export interface ISourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * The edit of the source an image was found in setting its alt text. Only the
+ * alt text, or the inserted alt attribute, is replaced.
+ */
+export function getImageAltTextEdit(
+  source: string,
+  image: IMarkdownImage,
+  altText: string
+): ISourceEdit {
+  const text = altText.replace(/\s+/g, ' ').trim();
+  let replacement: string;
+  if (image.syntax === 'markdown') {
+    replacement = text.replace(/[\\[\]]/g, '\\$&');
+  } else {
+    replacement = text
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    switch (image.altAttribute) {
+      case 'missing':
+        replacement = ` alt="${replacement}"`;
+        break;
+      case 'valueless':
+        replacement = `alt="${replacement}"`;
+        break;
+      case 'unquoted':
+        replacement = `"${replacement}"`;
+        break;
+      default:
+        if (source[image.altStart - 1] === "'") {
+          replacement = replacement.replace(/'/g, '&#39;');
+        }
+    }
+  }
+
+  return { start: image.altStart, end: image.altEnd, text: replacement };
+}
+
+/**
+ * Replace the alt text of an image in the source it was found in.
+ */
+export function setImageAltText(
+  source: string,
+  image: IMarkdownImage,
+  altText: string
+): string {
+  const edit = getImageAltTextEdit(source, image, altText);
+  return source.slice(0, edit.start) + edit.text + source.slice(edit.end);
+}
+
+/**
+ * The markup of an image before and after setting its alt text, to preview
+ * the change.
+ */
+export function previewImageAltText(
+  source: string,
+  image: IMarkdownImage,
+  altText: string
+): [string, string] {
+  const markup = source.slice(image.start, image.end);
+  const relative = {
+    ...image,
+    start: 0,
+    end: markup.length,
+    altStart: image.altStart - image.start,
+    altEnd: image.altEnd - image.start
+  };
+  return [markup, setImageAltText(markup, relative, altText)];
+}
+
+/**
+ * The image outputs alt text is generated for, e.g. matplotlib figures.
+ */
+export const OUTPUT_IMAGE_MIME_TYPES = ['image/png', 'image/jpeg'];
+
+/**
+ * An image in the outputs of a code cell.
+ */
+export interface IOutputImage {
+  /**
+   * The index of the output in the outputs of the cell.
+   */
+  index: number;
+  mimeType: string;
+}
+
+/**
+ * The alt text of an image output, stored in the output metadata next to the
+ * other display metadata of the image: `{"image/png": {"alt": "..."}}`.
+ */
+export function getOutputImageAltText(
+  metadata: ReadonlyPartialJSONObject,
+  mimeType: string
+): string {
+  const entry = metadata[mimeType] as ReadonlyPartialJSONObject | undefined;
+  return typeof entry?.alt === 'string' ? entry.alt : '';
+}
+
+/**
+ * Find the output a rendered image comes from, by its data URL.
+ */
+export function findOutputImage(
+  outputs: IOutputAreaModel,
+  src: string
+): IOutputImage | null {
+  const url = src.replace(/\s/g, '');
+  for (let index = 0; index < outputs.length; index++) {
+    const { data } = outputs.get(index);
+    for (const mimeType of OUTPUT_IMAGE_MIME_TYPES) {
+      const value = data[mimeType];
+      if (
+        typeof value === 'string' &&
+        `data:${mimeType};base64,${value.replace(/\s/g, '')}` === url
+      ) {
+        return { index, mimeType };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Store the alt text of an image output in its metadata.
+ */
+export function setOutputImageAltText(
+  outputs: IOutputAreaModel,
+  image: IOutputImage,
+  altText: string
+): void {
+  const output = outputs.get(image.index).toJSON();
+  const metadata = (output.metadata ?? {}) as PartialJSONObject;
+  const entry = metadata[image.mimeType];
+  outputs.set(image.index, {
+    ...output,
+    metadata: {
+      ...metadata,
+      [image.mimeType]: {
+        ...(entry && typeof entry === 'object' && !Array.isArray(entry)
+          ? entry
+          : {}),
+        alt: altText.replace(/\s+/g, ' ').trim()
+      }
+    }
+  } as nbformat.IOutput);
+}
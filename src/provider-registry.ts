@@ -1,10 +1,24 @@
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions
+} from '@ai-sdk/provider';
+
 import {
   JupyterFrontEnd,
   JupyterFrontEndPlugin
 } from '@jupyterlab/application';
 
 import { ISettingRegistry } from '@jupyterlab/settingregistry';
-import { Notification } from '@jupyterlab/apputils';
+import {
+  Dialog,
+  ICommandPalette,
+  InputDialog,
+  Notification,
+  showDialog
+} from '@jupyterlab/apputils';
+
+import { DisposableDelegate, IDisposable } from '@lumino/disposable';
+import { ISignal, Signal } from '@lumino/signaling';
 
 import {
   IProviderRegistry,
@@ -12,19 +26,77 @@ import {
   IAISettingsModel
 } from '@jupyterlite/ai';
 
-import { browserAI, doesBrowserSupportBrowserAI } from '@browser-ai/core';
+import { doesBrowserSupportBrowserAI } from '@browser-ai/core';
 
 import {
-  webLLM,
-  doesBrowserSupportWebLLM,
-  type WebLLMLanguageModel
-} from '@browser-ai/web-llm';
-
+  BrowserAICommandIDs,
+  getBackendLabel,
+  getUserConfiguredModelNames,
+  MODEL_LOADING_NOTIFICATIONS_SETTING,
+  MODEL_PRELOAD_SETTING,
+  ModelPreloadPolicy,
+  normalizeModelName,
+  PLUGIN_ID,
+  setBackendLabel
+} from './browser-ai-shared';
+import {
+  createChromeAIModel,
+  getChromeAIOptions,
+  type IChromeAIOptions
+} from './chrome-ai-models';
+import { fitPromptToContextWindow } from './context-window';
+import { recordInitializationError } from './diagnostics';
+import { llamaCppBackend } from './llamacpp-backend';
+import {
+  createBenchmarkNotebook,
+  DEFAULT_BENCHMARK_PROMPTS,
+  getBenchmarkPrompts,
+  runBenchmark,
+  type IBenchmarkTarget
+} from './model-benchmark';
+import {
+  clearModelActivity,
+  getModelActivities,
+  isLoading,
+  setModelActivity
+} from './model-activity';
+import {
+  assertModelCanRestart,
+  createManagedLanguageModel,
+  getLoadedModels,
+  getModelMemoryPolicy,
+  hasLoadedModelCapacity,
+  isModelCrashError,
+  recordModelCrash,
+  setModelMemoryPolicy,
+  startIdleModelMonitor,
+  trackLoadedModel,
+  unloadModel
+} from './model-lifecycle';
 import {
-  transformersJS,
-  doesBrowserSupportTransformersJS,
-  type TransformersJSLanguageModel
-} from '@browser-ai/transformers-js';
+  cancelSharedModelLoad,
+  createSharedLanguageModel,
+  getModelNoticeForwarder,
+  getModelSharingRole,
+  initializeSharedModel,
+  isMirroredModel,
+  modelSharingRoleChanged,
+  runsModelsInAnotherTab,
+  startModelSharing,
+  type IModelNotice
+} from './model-sharing';
+import {
+  formatBytes,
+  getStorageEstimate,
+  recordModelUsage
+} from './model-storage';
+import {
+  IBrowserAIBackendRegistry,
+  type IBrowserAIBackend,
+  type IBrowserAIBackendModel
+} from './tokens';
+import { transformersBackend } from './transformers-backend';
+import { webLLMBackend } from './webllm-backend';
 
 interface IAISettingsModelLike {
   providers: Array<{
@@ -32,6 +104,9 @@ interface IAISettingsModelLike {
     provider: string;
     model: string;
   }>;
+  config?: {
+    defaultProvider?: string;
+  };
   stateChanged: {
     connect: (
       slot: (sender: unknown, args: void) => void,
@@ -40,252 +115,425 @@ interface IAISettingsModelLike {
   };
 }
 
-const PLUGIN_ID = 'jupyterlab-browser-ai:plugin';
-const WEBLLM_CUSTOM_MODELS_SETTING = 'webLLMModels';
-const TRANSFORMERS_CUSTOM_MODELS_SETTING = 'transformersJsModels';
-const WEBLLM_PROVIDER_DESCRIPTION =
-  'On-device browser models accelerated with WebGPU. Configure model IDs in the "webLLMModels" setting.';
-const TRANSFORMERS_PROVIDER_DESCRIPTION =
-  'Small on-device models accelerated with WebGPU when available. Configure model IDs in the "transformersJsModels" setting.';
-const TRANSFORMERS_NO_WEBGPU_WARNING_MESSAGE =
-  'WebGPU is not available. Transformers.js will run on CPU and may be slower.';
 const MODEL_PRELOAD_NOTIFICATION_DELAY_MS = 1200;
 const FACTORY_INIT_NOTIFICATION_DELAY_MS = 2000;
 
-const webLLMModels = new Map<string, WebLLMLanguageModel>();
-const webLLMModelInitialization = new Map<string, Promise<void>>();
+// Model loading progress is shown in the status bar; toasts are opt-in.
+let modelLoadingNotifications = false;
 
-function getOrCreateWebLLMModel(modelName: string): WebLLMLanguageModel {
-  let model = webLLMModels.get(modelName);
-  if (!model) {
-    let notificationId: string | null = null;
+let chromeAIOptions: IChromeAIOptions = getChromeAIOptions({});
 
-    model = webLLM(modelName, {
-      worker: new Worker(new URL('./webllm-worker.js', import.meta.url), {
-        type: 'module'
-      }),
-      initProgressCallback: report => {
-        const clampedProgress = Math.max(0, Math.min(1, report.progress));
-        const percentage = Math.round(clampedProgress * 100);
-        const progressMessage =
-          report.text ?? getWebLLMProgressMessage(modelName, percentage);
-
-        if (notificationId === null) {
-          notificationId = Notification.emit(progressMessage, 'in-progress', {
-            progress: clampedProgress,
-            autoClose: false
-          });
-        } else if (percentage === 100) {
-          Notification.update({
-            id: notificationId,
-            message: `${modelName} ready`,
-            type: 'success',
-            progress: 1,
-            autoClose: 3000
-          });
-        } else {
-          Notification.update({
-            id: notificationId,
-            message: progressMessage,
-            progress: clampedProgress
-          });
-        }
-      }
-    });
+let benchmarkPrompts = DEFAULT_BENCHMARK_PROMPTS;
 
-    webLLMModels.set(modelName, model);
-  }
+let shareModelsAcrossTabs = true;
 
-  return model;
+let promptToDeleteRemovedModels = true;
+
+const modelLoadCancellations = new Map<string, (error: Error) => void>();
+
+/**
+ * The configured models already reported as invalid, to warn only once.
+ */
+const reportedInvalidModels = new Set<string>();
+
+function getModelLoadKey(backend: string, modelName: string): string {
+  return `${backend}:${modelName}`;
 }
 
-function getWebLLMProgressMessage(
-  modelName: string,
-  percentage: number
-): string {
-  if (percentage <= 0) {
-    return `Preparing ${modelName}...`;
-  }
+/**
+ * Make the load of a model cancellable. The backend promises never settle
+ * once the model worker is terminated, so they are raced against a promise
+ * rejected when the model is cancelled or unloaded.
+ */
+function createModelLoadCancellation(backend: string, modelName: string) {
+  const key = getModelLoadKey(backend, modelName);
+  let reject: (error: Error) => void = () => undefined;
+  const cancelled = new Promise<never>((_, rejectCancelled) => {
+    reject = rejectCancelled;
+  });
+  // Only observed through `race`.
+  cancelled.catch(() => undefined);
+  modelLoadCancellations.set(key, reject);
+
+  return {
+    race: <T>(promise: Promise<T>): Promise<T> =>
+      Promise.race([promise, cancelled]),
+    dispose: () => {
+      if (modelLoadCancellations.get(key) === reject) {
+        modelLoadCancellations.delete(key);
+      }
+    }
+  };
+}
 
-  return `Downloading ${modelName}... ${percentage}%`;
+function isModelLoadCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
 }
 
-function getWebLLMInitializationErrorMessage(
-  modelName: string,
-  error: unknown
-): string {
-  const rawMessage = error instanceof Error ? error.message : String(error);
-  const trimmedRawMessage = rawMessage.trim();
+/**
+ * Cancel the download or initialization of a model.
+ *
+ * The model worker is terminated, which aborts its downloads, and the model is
+ * unloaded so a later chat message or preload starts over. Returns false when
+ * the model is not loading.
+ */
+function cancelModelLoad(backend: string, modelName: string): boolean {
+  if (!modelLoadCancellations.has(getModelLoadKey(backend, modelName))) {
+    return false;
+  }
 
-  if (/^\d+$/.test(trimmedRawMessage)) {
-    return `Failed to prepare ${modelName}: worker runtime error (${trimmedRawMessage}). Try another model.`;
+  if (!unloadModel(backend, modelName)) {
+    disposeBackendModel(backend, modelName);
   }
+  return true;
+}
 
-  return `Failed to prepare ${modelName}: ${trimmedRawMessage || 'Unknown error'}`;
+/**
+ * The models loading in this tab, or in the tab running the models of every
+ * tab.
+ */
+function getLoadingModels(): Array<{
+  backend: string;
+  modelName: string;
+}> {
+  return getModelActivities().filter(
+    activity =>
+      modelLoadCancellations.has(
+        getModelLoadKey(activity.backend, activity.modelName)
+      ) ||
+      (isMirroredModel(activity.backend, activity.modelName) &&
+        isLoading(activity))
+  );
 }
 
-async function initializeWebLLMModel(modelName: string): Promise<void> {
-  const existingInitialization = webLLMModelInitialization.get(modelName);
-  if (existingInitialization) {
-    return existingInitialization;
-  }
+interface IModelWatch {
+  worker?: Worker;
+  crashed: Promise<never>;
+  reject: (error: Error) => void;
+}
 
-  const model = getOrCreateWebLLMModel(modelName);
+const modelWatches = new Map<string, IModelWatch>();
 
-  const initializationPromise = (async () => {
-    const availability = await model.availability();
-    if (availability === 'available') {
-      return;
-    }
-    if (availability === 'unavailable') {
-      throw new Error(`Model "${modelName}" is unavailable`);
-    }
+/**
+ * Watch a model for crashes, e.g. WebAssembly aborts or messages that cannot
+ * be deserialized by its worker.
+ */
+function watchModel(backend: string, modelName: string, worker?: Worker): void {
+  let reject: (error: Error) => void = () => undefined;
+  const crashed = new Promise<never>((_, rejectCrashed) => {
+    reject = rejectCrashed;
+  });
+  // Only observed by the calls in flight.
+  crashed.catch(() => undefined);
+  modelWatches.set(getModelLoadKey(backend, modelName), {
+    worker,
+    crashed,
+    reject
+  });
 
-    try {
-      await model.createSessionWithProgress();
-    } catch (error) {
-      const errorMessage = getWebLLMInitializationErrorMessage(
-        modelName,
-        error
-      );
-      Notification.emit(errorMessage, 'error', { autoClose: 5000 });
-      throw error;
-    }
-  })();
+  if (!worker) {
+    return;
+  }
 
-  webLLMModelInitialization.set(modelName, initializationPromise);
+  const onWorkerError = (event: Event) => {
+    const reason =
+      event instanceof ErrorEvent && event.message
+        ? event.message
+        : event.type === 'messageerror'
+          ? 'the worker sent a message that could not be read'
+          : 'the worker failed';
+    handleModelCrash(backend, modelName, new Error(reason), worker);
+  };
+  worker.addEventListener('error', onWorkerError);
+  worker.addEventListener('messageerror', onWorkerError);
+}
 
-  initializationPromise.finally(() => {
-    webLLMModelInitialization.delete(modelName);
-  });
+function stopWatchingModel(backend: string, modelName: string): void {
+  modelWatches.delete(getModelLoadKey(backend, modelName));
+}
 
-  return initializationPromise;
+function getModelCrash(
+  backend: string,
+  modelName: string
+): Promise<never> | undefined {
+  return modelWatches.get(getModelLoadKey(backend, modelName))?.crashed;
+}
+
+/**
+ * Get a function showing a notice about a model in the tabs waiting for it:
+ * the other tabs whose calls this tab runs, or else this tab.
+ */
+function getModelNotifier(
+  backend: string,
+  modelName: string
+): (notice: IModelNotice) => void {
+  const forward = getModelNoticeForwarder(backend, modelName);
+  return notice => {
+    if (!forward(notice)) {
+      const { message, type, ...options } = notice;
+      Notification.emit(message, type, options);
+    }
+  };
 }
 
-type TransformersModelSettings = NonNullable<
-  Parameters<typeof transformersJS>[1]
->;
-
-const TRANSFORMERS_MODEL_SETTINGS_BY_ID: Record<
-  string,
-  Partial<Pick<TransformersModelSettings, 'dtype' | 'device'>>
-> = {
-  // Upstream browser-ai examples use q4 for SmolLM2 in the browser.
-  'HuggingFaceTB/SmolLM2-360M-Instruct': { dtype: 'q4' },
-  // ONNX community model cards recommend q4 for Qwen2.5 coder/instruct.
-  'onnx-community/Qwen2.5-Coder-0.5B-Instruct': { dtype: 'q4' },
-  'onnx-community/Qwen2.5-0.5B-Instruct': { dtype: 'q4' },
-  // Qwen3 ONNX cards recommend q4f16 for browser usage.
-  'onnx-community/Qwen3-0.6B-ONNX': { dtype: 'q4f16' },
-  // Upstream browser-ai examples use fp16 for tool-calling-focused models.
-  'onnx-community/granite-4.0-350m-ONNX-web': { dtype: 'fp16' },
-  'onnx-community/LFM2-1.2B-Tool-ONNX': { dtype: 'fp16' }
-};
-
-let hasShownTransformersNoWebGPUWarning = false;
-
-function maybeWarnOnTransformersWithoutWebGPU(): void {
-  if (hasShownTransformersNoWebGPUWarning || doesBrowserSupportWebLLM()) {
+/**
+ * Drop a model whose worker crashed or whose GPU device was lost. The next
+ * chat message creates it again, unless it crashed too often.
+ */
+function handleModelCrash(
+  backend: string,
+  modelName: string,
+  error: unknown,
+  worker?: Worker
+): void {
+  const key = getModelLoadKey(backend, modelName);
+  const watch = modelWatches.get(key);
+  // Ignore errors of workers already replaced or dropped.
+  if (!watch || (worker && watch.worker !== worker)) {
     return;
   }
 
-  hasShownTransformersNoWebGPUWarning = true;
-  Notification.emit(TRANSFORMERS_NO_WEBGPU_WARNING_MESSAGE, 'warning', {
-    autoClose: 5000
-  });
-}
-
-function normalizeModelName(modelName: unknown): string | null {
-  if (typeof modelName !== 'string') {
-    return null;
+  // The calls in flight end with the crash.
+  const notify = getModelNotifier(backend, modelName);
+  const label = getBackendLabel(backend);
+  const reason = error instanceof Error ? error.message : String(error);
+  const crashError = new Error(`${modelName} crashed: ${reason}`);
+  console.error(`${label} model "${modelName}" crashed`, error);
+
+  modelWatches.delete(key);
+  watch.reject(crashError);
+
+  // A crash while loading fails the load, which records the error itself.
+  const failLoad = modelLoadCancellations.get(key);
+  if (failLoad) {
+    modelLoadCancellations.delete(key);
+    failLoad(crashError);
+  } else {
+    recordInitializationError(`${label} ${modelName}`, error);
   }
 
-  const normalizedModelName = modelName.trim();
-  if (normalizedModelName === '') {
-    return null;
+  if (!unloadModel(backend, modelName)) {
+    disposeBackendModel(backend, modelName);
   }
 
-  return normalizedModelName;
+  const message = recordModelCrash(backend, modelName)
+    ? `${modelName} stopped working (${reason}) and was unloaded. It will be loaded again with the next message.`
+    : `${modelName} stopped working (${reason}) too many times and will not be loaded again. Reload the page or choose another model.`;
+  notify({ message, type: 'error', autoClose: 10000 });
 }
 
-function getConfiguredProviderModelNames(
-  settingsModel: IAISettingsModelLike,
-  providerId: string
-): string[] {
-  const modelNames = new Set<string>();
+/**
+ * Treat errors of a model call that leave its worker unusable as crashes.
+ */
+function handleModelCallError(
+  backend: string,
+  modelName: string,
+  error: unknown
+): void {
+  if (isModelCrashError(error)) {
+    handleModelCrash(backend, modelName, error);
+  }
+}
 
-  for (const provider of settingsModel.providers) {
-    if (provider.provider !== providerId) {
-      continue;
+function getCancelModelLoadAction(
+  backend: string,
+  modelName: string
+): Notification.IAction {
+  return {
+    label: 'Cancel',
+    caption: `Cancel loading ${modelName}`,
+    callback: () => {
+      cancelModelLoad(backend, modelName);
     }
+  };
+}
 
-    const modelName = normalizeModelName(provider.model);
-    if (modelName) {
-      modelNames.add(modelName);
-    }
+const backends = new Map<string, IBrowserAIBackend>();
+const configuredBackendModels = new Map<string, string[]>();
+const backendModels = new Map<string, IBrowserAIBackendModel>();
+const backendModelInitialization = new Map<string, Promise<void>>();
+
+function getBackend(backendId: string): IBrowserAIBackend {
+  const backend = backends.get(backendId);
+  if (!backend) {
+    throw new Error(`The "${backendId}" backend is not registered`);
   }
+  return backend;
+}
 
-  return [...modelNames];
+function getOrCreateBackendModel(
+  backend: string,
+  modelName: string
+): IBrowserAIBackendModel {
+  const key = getModelLoadKey(backend, modelName);
+  let model = backendModels.get(key);
+  if (!model) {
+    model = getBackend(backend).createModel(modelName);
+    backendModels.set(key, model);
+    watchModel(backend, modelName, model.worker);
+    trackLoadedModel(backend, modelName, {
+      unload: () => disposeBackendModel(backend, modelName),
+      isInitializing: () => backendModelInitialization.has(key)
+    });
+  }
+
+  return model;
 }
 
-function getConfiguredTransformersModelNames(
-  settingsModel: IAISettingsModelLike
-): string[] {
-  return getConfiguredProviderModelNames(settingsModel, 'transformers-js');
+function disposeBackendModel(backend: string, modelName: string): void {
+  const key = getModelLoadKey(backend, modelName);
+  backendModels.get(key)?.dispose();
+  backendModels.delete(key);
+  stopWatchingModel(backend, modelName);
+  backendModelInitialization.delete(key);
+  clearModelActivity(backend, modelName);
+
+  // The load never settles once the model is disposed.
+  const cancel = modelLoadCancellations.get(key);
+  if (cancel) {
+    modelLoadCancellations.delete(key);
+    cancel(
+      new DOMException(`Loading ${modelName} was cancelled`, 'AbortError')
+    );
+  }
 }
 
-function getConfiguredWebLLMModelNames(
-  settingsModel: IAISettingsModelLike
-): string[] {
-  return getConfiguredProviderModelNames(settingsModel, 'web-llm');
+let persistentStorageOffered = false;
+
+/**
+ * Offer once per session to keep downloaded models when the browser runs low
+ * on storage, instead of evicting them.
+ */
+async function offerPersistentStorage(
+  backend: string,
+  modelName: string
+): Promise<void> {
+  if (persistentStorageOffered || !navigator.storage?.persist) {
+    return;
+  }
+  persistentStorageOffered = true;
+  const notify = getModelNotifier(backend, modelName);
+  if (await navigator.storage.persisted()) {
+    return;
+  }
+
+  notify({
+    message:
+      'The browser may delete downloaded models when storage runs low, which leaves incomplete models behind. Keep them until you delete them?',
+    type: 'info',
+    autoClose: false,
+    actions: [
+      {
+        label: 'Keep Models',
+        caption: 'Ask the browser for persistent storage',
+        callback: async () => {
+          const notifyResult = getModelNotifier(backend, modelName);
+          if (!(await navigator.storage.persist())) {
+            notifyResult({
+              message:
+                'The browser did not grant persistent storage. Bookmarking the site or installing it as an app can help.',
+              type: 'warning',
+              autoClose: 5000
+            });
+          }
+        }
+      }
+    ]
+  });
 }
 
-function getUserConfiguredModelNames(value: unknown): string[] {
-  if (!Array.isArray(value)) {
-    return [];
+/**
+ * Check that a model which is not cached yet fits in the storage quota.
+ *
+ * Returns whether the model is cached.
+ */
+async function checkModelStorage(
+  backend: string,
+  modelName: string
+): Promise<boolean> {
+  const backendInfo = getBackend(backend);
+  if (await backendInfo.isModelCached?.(modelName)) {
+    return true;
   }
 
-  const modelNames = new Set<string>();
+  void offerPersistentStorage(backend, modelName);
 
-  for (const entry of value) {
-    const modelName = normalizeModelName(entry);
-    if (modelName) {
-      modelNames.add(modelName);
-    }
+  const [size, estimate] = await Promise.all([
+    backendInfo.getModelDownloadSize?.(modelName).catch(() => null),
+    getStorageEstimate()
+  ]);
+  if (!size || !estimate?.quota) {
+    return false;
   }
 
-  return [...modelNames];
+  const available = estimate.quota - (estimate.usage ?? 0);
+  if (size > available) {
+    throw new Error(
+      `Not enough browser storage to download ${modelName}: it needs ${formatBytes(size)} and ${formatBytes(available)} is left. Delete unused models with "Browser AI: Manage Model Storage" or free up disk space, then try again.`
+    );
+  }
+  return false;
 }
 
-const transformersModels = new Map<string, TransformersJSLanguageModel>();
-const transformersModelInitialization = new Map<string, Promise<void>>();
+/**
+ * Delete the cached files of a model and load it again.
+ */
+async function redownloadModel(
+  backend: string,
+  modelName: string
+): Promise<void> {
+  const notify = getModelNotifier(backend, modelName);
+  unloadModel(backend, modelName);
+  try {
+    await getBackend(backend).deleteModelCache?.(modelName);
+  } catch (error) {
+    notify({
+      message: `Failed to delete the cached files of ${modelName}: ${error instanceof Error ? error.message : String(error)}`,
+      type: 'error',
+      autoClose: 5000
+    });
+    return;
+  }
+  retryModelLoad(backend, modelName);
+}
 
-function getOrCreateTransformersModel(
+/**
+ * Offer to download a model again when its cached files are incomplete.
+ */
+async function checkModelCache(
+  backend: string,
   modelName: string
-): TransformersJSLanguageModel {
-  let model = transformersModels.get(modelName);
-  if (!model) {
-    maybeWarnOnTransformersWithoutWebGPU();
+): Promise<void> {
+  const { verifyModelCache, deleteModelCache } = getBackend(backend);
+  if (!verifyModelCache || !deleteModelCache) {
+    return;
+  }
 
-    const modelSettings = TRANSFORMERS_MODEL_SETTINGS_BY_ID[modelName] ?? {};
-    model = transformersJS(modelName, {
-      ...modelSettings,
-      worker: new Worker(
-        new URL('./transformersjs-worker.js', import.meta.url),
-        {
-          type: 'module'
-        }
-      )
-    });
-    transformersModels.set(modelName, model);
+  const notify = getModelNotifier(backend, modelName);
+  try {
+    if (await verifyModelCache(modelName)) {
+      return;
+    }
+  } catch (error) {
+    console.warn(`Failed to verify the cached files of ${modelName}`, error);
+    return;
   }
-  return model;
+
+  notify({
+    message: `The cached files of ${modelName} are incomplete, for example because the browser deleted some of them while they were downloaded.`,
+    type: 'warning',
+    autoClose: false,
+    actions: [
+      {
+        label: 'Re-download',
+        caption: `Delete the cached files of ${modelName} and download it again`,
+        callback: () => redownloadModel(backend, modelName)
+      }
+    ]
+  });
 }
 
-function getTransformersProgressMessage(
-  modelName: string,
-  percentage: number
-): string {
+function getProgressMessage(modelName: string, percentage: number): string {
   if (percentage <= 0) {
     return `Preparing ${modelName}...`;
   }
@@ -293,7 +541,7 @@ function getTransformersProgressMessage(
   return `Loading ${modelName}... ${percentage}%`;
 }
 
-function getTransformersInitializationErrorMessage(
+function getInitializationErrorMessage(
   modelName: string,
   error: unknown
 ): string {
@@ -308,44 +556,66 @@ function getTransformersInitializationErrorMessage(
   return `Failed to prepare ${modelName}: ${trimmedRawMessage || 'Unknown error'}`;
 }
 
-async function initializeTransformersModel(
+async function initializeBackendModel(
+  backend: string,
   modelName: string,
   notificationDelayMs = MODEL_PRELOAD_NOTIFICATION_DELAY_MS
 ): Promise<void> {
-  const existingInitialization = transformersModelInitialization.get(modelName);
+  if (await runsModelsInAnotherTab()) {
+    return initializeSharedModel(backend, modelName);
+  }
+
+  const key = getModelLoadKey(backend, modelName);
+  const existingInitialization = backendModelInitialization.get(key);
   if (existingInitialization) {
     return existingInitialization;
   }
 
-  const model = getOrCreateTransformersModel(modelName);
+  assertModelCanRestart(backend, modelName);
+
+  const label = getBackendLabel(backend);
+  const model = getOrCreateBackendModel(backend, modelName);
+  const cancellation = createModelLoadCancellation(backend, modelName);
 
   const initializationPromise = (async () => {
-    const availability = await model.availability();
+    setModelActivity(backend, modelName, 'queued');
+
+    const availability = await cancellation.race(model.availability());
     if (availability === 'available') {
+      setModelActivity(backend, modelName, 'ready');
       return;
     }
     if (availability === 'unavailable') {
-      throw new Error(`Model "${modelName}" is unavailable`);
+      const reason = await getBackend(backend)
+        .validateModel?.(modelName)
+        .catch(() => null);
+      const error = new Error(
+        reason
+          ? `Model "${modelName}" is unavailable: ${reason}`
+          : `Model "${modelName}" is unavailable`
+      );
+      recordInitializationError(`${label} ${modelName}`, error);
+      setModelActivity(backend, modelName, 'failed', {
+        error: error.message
+      });
+      throw error;
     }
 
     let notificationId: string | null = null;
     let latestProgress = 0;
+    let latestMessage = getProgressMessage(modelName, 0);
     let notificationDelayTimeout: number | null = null;
 
     const ensureNotification = () => {
-      if (notificationId !== null) {
+      if (notificationId !== null || !modelLoadingNotifications) {
         return;
       }
 
-      const percentage = Math.round(latestProgress * 100);
-      notificationId = Notification.emit(
-        getTransformersProgressMessage(modelName, percentage),
-        'in-progress',
-        {
-          progress: latestProgress,
-          autoClose: false
-        }
-      );
+      notificationId = Notification.emit(latestMessage, 'in-progress', {
+        progress: latestProgress,
+        autoClose: false,
+        actions: [getCancelModelLoadAction(backend, modelName)]
+      });
     };
 
     notificationDelayTimeout = window.setTimeout(
@@ -353,33 +623,52 @@ async function initializeTransformersModel(
       notificationDelayMs
     );
 
+    let cached = true;
     try {
-      await model.createSessionWithProgress(progress => {
-        const clampedProgress = Math.max(0, Math.min(1, progress));
-        latestProgress = clampedProgress;
+      cached = await cancellation.race(checkModelStorage(backend, modelName));
+      await cancellation.race(
+        model.initialize(report => {
+          const clampedProgress = Math.max(0, Math.min(1, report.progress));
+          latestProgress = clampedProgress;
+          latestMessage =
+            report.message ??
+            getProgressMessage(modelName, Math.round(clampedProgress * 100));
+
+          setModelActivity(
+            backend,
+            modelName,
+            report.phase ?? (clampedProgress < 1 ? 'downloading' : 'compiling'),
+            { progress: clampedProgress }
+          );
 
-        if (notificationId !== null) {
-          const percentage = Math.round(clampedProgress * 100);
-          Notification.update({
-            id: notificationId,
-            message: getTransformersProgressMessage(modelName, percentage),
-            progress: clampedProgress
-          });
-        }
-      });
+          if (notificationId !== null) {
+            Notification.update({
+              id: notificationId,
+              message: latestMessage,
+              progress: clampedProgress
+            });
+          }
+        })
+      );
 
       if (notificationDelayTimeout !== null) {
         clearTimeout(notificationDelayTimeout);
         notificationDelayTimeout = null;
       }
 
+      setModelActivity(backend, modelName, 'ready');
+      if (!cached) {
+        void checkModelCache(backend, modelName);
+      }
+
       if (notificationId !== null) {
         Notification.update({
           id: notificationId,
           message: `${modelName} ready`,
           type: 'success',
           progress: 1,
-          autoClose: 3000
+          autoClose: 3000,
+          actions: []
         });
       }
     } catch (error) {
@@ -388,19 +677,35 @@ async function initializeTransformersModel(
         notificationDelayTimeout = null;
       }
 
-      const errorMessage = getTransformersInitializationErrorMessage(
-        modelName,
-        error
-      );
+      if (isModelLoadCancelled(error)) {
+        if (notificationId !== null) {
+          Notification.dismiss(notificationId);
+        }
+        throw error;
+      }
+
+      recordInitializationError(`${label} ${modelName}`, error);
+      // The worker is unusable after an abort: drop it so it is recreated.
+      if (isModelCrashError(error)) {
+        handleModelCrash(backend, modelName, error);
+      }
+      // Corrupt weights in the cache fail every load until deleted.
+      void checkModelCache(backend, modelName);
+      const errorMessage = getInitializationErrorMessage(modelName, error);
+      setModelActivity(backend, modelName, 'failed', {
+        error: errorMessage,
+        retry: () => retryModelLoad(backend, modelName)
+      });
 
       if (notificationId !== null) {
         Notification.update({
           id: notificationId,
           message: errorMessage,
           type: 'error',
-          autoClose: 5000
+          autoClose: 5000,
+          actions: []
         });
-      } else {
+      } else if (modelLoadingNotifications) {
         Notification.emit(errorMessage, 'error', { autoClose: 5000 });
       }
 
@@ -408,276 +713,1078 @@ async function initializeTransformersModel(
     }
   })();
 
-  transformersModelInitialization.set(modelName, initializationPromise);
+  backendModelInitialization.set(key, initializationPromise);
 
-  initializationPromise.finally(() => {
-    transformersModelInitialization.delete(modelName);
-  });
+  // Callers handle the rejection of the initialization itself.
+  void initializationPromise
+    .catch(() => undefined)
+    .finally(() => {
+      cancellation.dispose();
+      if (backendModelInitialization.get(key) === initializationPromise) {
+        backendModelInitialization.delete(key);
+      }
+    });
 
   return initializationPromise;
 }
 
-function preloadConfiguredTransformersModels(
-  settingsModel: IAISettingsModelLike
-): void {
-  const modelNames = getConfiguredTransformersModelNames(settingsModel);
+function retryModelLoad(backend: string, modelName: string): void {
+  void initializeBackendModel(backend, modelName).catch(error => {
+    console.error(
+      `Failed to initialize ${getBackendLabel(backend)} model "${modelName}"`,
+      error
+    );
+  });
+}
 
-  for (const modelName of modelNames) {
-    void initializeTransformersModel(modelName).catch(error => {
-      console.error(
-        `Failed to initialize Transformers.js model "${modelName}"`,
-        error
-      );
-    });
+/**
+ * Check the configured models of a backend, and warn about the invalid ones,
+ * e.g. typos in their IDs, before a chat tries to load them.
+ */
+async function validateConfiguredModels(
+  backend: IBrowserAIBackend,
+  modelNames: string[]
+): Promise<void> {
+  if (!backend.validateModel) {
+    return;
+  }
+
+  const errors = await Promise.all(
+    modelNames.map(modelName =>
+      backend.validateModel!(modelName).catch(() => null)
+    )
+  );
+  const newErrors: string[] = [];
+  modelNames.forEach((modelName, index) => {
+    const key = getModelLoadKey(backend.id, modelName);
+    const error = errors[index];
+    if (!error) {
+      reportedInvalidModels.delete(key);
+    } else if (!reportedInvalidModels.has(key)) {
+      reportedInvalidModels.add(key);
+      newErrors.push(error);
+    }
+  });
+  if (newErrors.length === 0) {
+    return;
   }
+
+  console.warn(
+    `Invalid ${backend.name} models in the settings:\n${newErrors.join('\n')}`
+  );
+  Notification.emit(
+    newErrors.length === 1
+      ? `Invalid ${backend.name} model: ${newErrors[0]}`
+      : `${newErrors.length} configured ${backend.name} models are invalid. See the browser console for details.`,
+    'warning',
+    { autoClose: 10000 }
+  );
 }
 
-function preloadConfiguredWebLLMModels(
-  settingsModel: IAISettingsModelLike
-): void {
-  const modelNames = getConfiguredWebLLMModelNames(settingsModel);
+function getConfiguredProviderModelNames(
+  settingsModel: IAISettingsModelLike,
+  providerId: string
+): string[] {
+  const modelNames = new Set<string>();
 
-  for (const modelName of modelNames) {
-    void initializeWebLLMModel(modelName).catch(error => {
-      console.error(`Failed to initialize WebLLM model "${modelName}"`, error);
-    });
+  for (const provider of settingsModel.providers) {
+    if (provider.provider !== providerId) {
+      continue;
+    }
+
+    const modelName = normalizeModelName(provider.model);
+    if (modelName) {
+      modelNames.add(modelName);
+    }
   }
+
+  return [...modelNames];
 }
 
 /**
- * Initialization data for the jupyterlab-browser-ai extension.
+ * The model of the default chat provider, which new chats use, when it runs
+ * in a backend.
  */
-export const providerRegistryPlugin: JupyterFrontEndPlugin<void> = {
-  id: PLUGIN_ID,
-  description: 'In-browser AI in JupyterLab and Jupyter Notebook',
-  autoStart: true,
-  requires: [IProviderRegistry],
-  optional: [ISettingRegistry, IAISettingsModel],
-  activate: (
-    app: JupyterFrontEnd,
-    providerRegistry: IProviderRegistry,
-    settingRegistry: ISettingRegistry | null,
-    settingsModel: IAISettingsModelLike | null
-  ) => {
-    let configuredWebLLMModels: string[] = [];
-    let refreshWebLLMDefaultModels: (() => void) | null = null;
-    let configuredTransformersModels: string[] = [];
-    let refreshTransformersDefaultModels: (() => void) | null = null;
-
-    if (doesBrowserSupportBrowserAI()) {
-      const chromeAIInfo: IProviderInfo = {
-        id: 'chrome-ai',
-        name: 'Chrome Built-in AI',
-        apiKeyRequirement: 'none',
-        defaultModels: ['chrome-ai'],
-        supportsBaseURL: false,
-        supportsHeaders: false,
-        supportsToolCalling: true,
-        factory: () => {
-          return browserAI('text');
-        }
-      };
-
-      providerRegistry.registerProvider(chromeAIInfo);
-    }
-
-    if (doesBrowserSupportWebLLM()) {
-      const registerWebLLMProvider = () => {
-        const webLLMInfo: IProviderInfo = {
-          id: 'web-llm',
-          name: 'WebLLM',
-          apiKeyRequirement: 'none',
-          defaultModels: [...configuredWebLLMModels],
-          description: WEBLLM_PROVIDER_DESCRIPTION,
-          supportsBaseURL: false,
-          supportsHeaders: false,
-          supportsToolCalling: true,
-          factory: (options: { model?: string }) => {
-            const modelName = options.model ?? configuredWebLLMModels[0];
-            if (!modelName) {
-              throw new Error(
-                'No WebLLM model configured. Set "webLLMModels" in jupyterlab-browser-ai settings.'
+function getDefaultProviderModelNames(
+  settingsModel: IAISettingsModelLike,
+  providerId: string
+): string[] {
+  const defaultProvider = settingsModel.providers.find(
+    provider => provider.id === settingsModel.config?.defaultProvider
+  );
+  if (!defaultProvider || defaultProvider.provider !== providerId) {
+    return [];
+  }
+
+  const modelName = normalizeModelName(defaultProvider.model);
+  return modelName ? [modelName] : [];
+}
+
+/**
+ * The models of each backend listed in its settings or used by a chat
+ * provider, as of the last change.
+ */
+const reconciledModelNames = new Map<string, Set<string>>();
+
+/**
+ * Whether a model is configured, loaded or loading, so its weights must be
+ * kept.
+ */
+function isModelInUse(backend: string, modelName: string): boolean {
+  return (
+    reconciledModelNames.get(backend)?.has(modelName) === true ||
+    configuredBackendModels.get(backend)?.includes(modelName) === true ||
+    modelLoadCancellations.has(getModelLoadKey(backend, modelName)) ||
+    getLoadedModels().some(
+      model => model.backend === backend && model.modelName === modelName
+    )
+  );
+}
+
+/**
+ * Offer to delete the cached weights of a model removed from the settings.
+ */
+async function offerToDeleteRemovedModel(
+  backend: string,
+  modelName: string
+): Promise<void> {
+  const { isModelCached, deleteModelCache } = getBackend(backend);
+  if (!deleteModelCache || !(await isModelCached?.(modelName))) {
+    return;
+  }
+
+  Notification.emit(
+    `${modelName} is no longer configured. Delete its downloaded weights to free up storage?`,
+    'info',
+    {
+      autoClose: false,
+      actions: [
+        {
+          label: 'Delete',
+          caption: `Delete the cached files of ${modelName}`,
+          callback: () => {
+            // The model may have been configured or loaded again meanwhile.
+            if (isModelInUse(backend, modelName)) {
+              Notification.emit(
+                `Kept the weights of ${modelName}, which is in use again`,
+                'info',
+                { autoClose: 3000 }
               );
+              return;
             }
+            void deleteModelCache(modelName).then(
+              () => {
+                Notification.emit(`Deleted ${modelName}`, 'success', {
+                  autoClose: 3000
+                });
+              },
+              error => {
+                Notification.emit(
+                  `Failed to delete ${modelName}: ${error instanceof Error ? error.message : String(error)}`,
+                  'error',
+                  { autoClose: 5000 }
+                );
+              }
+            );
+          }
+        }
+      ]
+    }
+  );
+}
+
+/**
+ * Unload the models of a backend removed from both its settings and the chat
+ * providers. Models generating a response are left to the idle unloading.
+ */
+function reconcileConfiguredModels(
+  backend: string,
+  settingsModel: IAISettingsModelLike | null
+): void {
+  const modelNames = new Set([
+    ...(configuredBackendModels.get(backend) ?? []),
+    ...(settingsModel
+      ? getConfiguredProviderModelNames(settingsModel, backend)
+      : [])
+  ]);
+  const previousModelNames = reconciledModelNames.get(backend);
+  reconciledModelNames.set(backend, modelNames);
+  if (!previousModelNames) {
+    return;
+  }
+
+  for (const modelName of previousModelNames) {
+    if (modelNames.has(modelName)) {
+      continue;
+    }
+
+    const loadedModel = getLoadedModels().find(
+      model => model.backend === backend && model.modelName === modelName
+    );
+    // A model still generating a response is kept, with its weights.
+    if (loadedModel && loadedModel.activeCalls > 0) {
+      continue;
+    }
+    if (!cancelModelLoad(backend, modelName)) {
+      unloadModel(backend, modelName);
+    }
+    // The tab running the models of every tab offers it once.
+    if (promptToDeleteRemovedModels && getModelSharingRole() !== 'follower') {
+      void offerToDeleteRemovedModel(backend, modelName);
+    }
+  }
+}
+
+let modelPreloadPolicy: ModelPreloadPolicy = 'eager';
+
+function getModelPreloadPolicy(value: unknown): ModelPreloadPolicy {
+  switch (value) {
+    case 'default-provider':
+    case 'on-first-message':
+    case 'never':
+      return value;
+    default:
+      return 'eager';
+  }
+}
+
+/**
+ * Whether a chat creating a model should start loading it right away.
+ */
+function shouldInitializeOnModelCreation(): boolean {
+  return (
+    modelPreloadPolicy === 'eager' || modelPreloadPolicy === 'default-provider'
+  );
+}
+
+function getPreloadModelNames(
+  settingsModel: IAISettingsModelLike,
+  providerId: string
+): string[] {
+  switch (modelPreloadPolicy) {
+    case 'eager':
+      return getConfiguredProviderModelNames(settingsModel, providerId);
+    case 'default-provider':
+      return getDefaultProviderModelNames(settingsModel, providerId);
+    default:
+      return [];
+  }
+}
+
+function preloadConfiguredModels(
+  settingsModel: IAISettingsModelLike,
+  backend: string
+): void {
+  // The tab running the models preloads them for every tab.
+  if (getModelSharingRole() === 'follower') {
+    return;
+  }
+
+  const modelNames = getPreloadModelNames(settingsModel, backend);
+
+  for (const modelName of modelNames) {
+    // Do not evict loaded models just to preload others.
+    if (
+      !backendModels.has(getModelLoadKey(backend, modelName)) &&
+      !hasLoadedModelCapacity()
+    ) {
+      break;
+    }
+
+    retryModelLoad(backend, modelName);
+  }
+}
+
+/**
+ * Whether the weights of a model are loaded or completely in the browser
+ * cache, so loading it does not download anything.
+ */
+async function isModelDownloaded(
+  backend: string,
+  modelName: string
+): Promise<boolean> {
+  const model = backendModels.get(getModelLoadKey(backend, modelName));
+  if (model && (await model.availability()) === 'available') {
+    return true;
+  }
+
+  const { isModelCached, verifyModelCache } = getBackend(backend);
+  if (!(await isModelCached?.(modelName))) {
+    return false;
+  }
+  try {
+    return (await verifyModelCache?.(modelName)) ?? true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load a model before a chat sends it a message.
+ *
+ * With the "never" preload policy, chats never start a download: they only
+ * load models whose weights are completely in the browser cache, or wait for
+ * the downloads started explicitly.
+ */
+async function prepareModelForChat(
+  backend: string,
+  modelName: string
+): Promise<void> {
+  if (
+    modelPreloadPolicy === 'never' &&
+    !backendModelInitialization.has(getModelLoadKey(backend, modelName)) &&
+    !(await isModelDownloaded(backend, modelName))
+  ) {
+    throw new Error(
+      `${modelName} has not been downloaded yet. Run "Browser AI: Download Model" to download it.`
+    );
+  }
+
+  await initializeBackendModel(
+    backend,
+    modelName,
+    FACTORY_INIT_NOTIFICATION_DELAY_MS
+  );
+}
+
+/**
+ * What a chat model was already warned about, so the steps of an agent turn
+ * and the next turns of a long chat do not show the same warning again.
+ */
+interface IContextWindowWarnings {
+  droppedMessages: boolean;
+  truncatedCharacters: boolean;
+}
+
+/**
+ * Trim the prompt of a call to the context window of the model, when known.
+ */
+async function fitCallToContextWindow(
+  backend: string,
+  modelName: string,
+  callOptions: LanguageModelV3CallOptions,
+  warnings: IContextWindowWarnings
+): Promise<LanguageModelV3CallOptions> {
+  let contextWindow: number | null = null;
+  try {
+    contextWindow =
+      (await getBackend(backend).getContextWindow?.(modelName)) ?? null;
+  } catch (error) {
+    console.warn(`Failed to get the context window of ${modelName}`, error);
+  }
+  if (!contextWindow) {
+    return callOptions;
+  }
+
+  const { prompt, droppedMessages, truncatedCharacters } =
+    fitPromptToContextWindow(callOptions, contextWindow);
+  // Older messages can hold attached notebook content, so leaving them out is
+  // reported like truncating the latest one.
+  const changes: string[] = [];
+  if (droppedMessages > 0 && !warnings.droppedMessages) {
+    warnings.droppedMessages = true;
+    changes.push(
+      droppedMessages > 1
+        ? `${droppedMessages} older messages and their attachments were left out`
+        : 'an older message and its attachments were left out'
+    );
+  }
+  if (truncatedCharacters > 0 && !warnings.truncatedCharacters) {
+    warnings.truncatedCharacters = true;
+    changes.push(
+      `the latest message was truncated by ${truncatedCharacters} characters`
+    );
+  }
+  if (changes.length > 0) {
+    Notification.emit(
+      `To fit the ${contextWindow}-token context window of ${modelName}, ${changes.join(' and ')}.`,
+      'warning',
+      { autoClose: 5000 }
+    );
+  }
+
+  return { ...callOptions, prompt };
+}
+
+/**
+ * A language model loading the backend model in this tab on first call, and
+ * following its lifecycle. Calls of other tabs come prepared.
+ */
+function createLocalLanguageModel(
+  backend: string,
+  modelName: string,
+  prepareCall?: (
+    callOptions: LanguageModelV3CallOptions
+  ) => Promise<LanguageModelV3CallOptions>
+): LanguageModelV3 {
+  return createManagedLanguageModel(backend, modelName, {
+    getModel: model => getOrCreateBackendModel(backend, model).languageModel,
+    initialize: model => prepareModelForChat(backend, model),
+    prepareCall,
+    crashed: model => getModelCrash(backend, model),
+    onError: error => handleModelCallError(backend, modelName, error)
+  });
+}
+
+/**
+ * A language model running in the tab that runs the models of every tab. Its
+ * calls are fitted to the context window in this tab.
+ */
+function createBackendLanguageModel(
+  backend: string,
+  modelName: string
+): LanguageModelV3 {
+  const warnings = { droppedMessages: false, truncatedCharacters: false };
+  const prepareCall = (callOptions: LanguageModelV3CallOptions) =>
+    fitCallToContextWindow(backend, modelName, callOptions, warnings);
+  return createSharedLanguageModel(
+    createLocalLanguageModel(backend, modelName, prepareCall),
+    prepareCall
+  );
+}
+
+/**
+ * The backend registry provided by this extension.
+ */
+class BrowserAIBackendRegistry implements IBrowserAIBackendRegistry {
+  constructor(options: BrowserAIBackendRegistry.IOptions) {
+    this._addProvider = options.addProvider;
+  }
+
+  get backends(): ReadonlyArray<IBrowserAIBackend> {
+    return [...backends.values()];
+  }
+
+  get changed(): ISignal<IBrowserAIBackendRegistry, void> {
+    return this._changed;
+  }
+
+  register(backend: IBrowserAIBackend): IDisposable {
+    if (backends.has(backend.id)) {
+      throw new Error(`A "${backend.id}" backend is already registered`);
+    }
+
+    backends.set(backend.id, backend);
+    setBackendLabel(backend.id, backend.name);
+    const provider = backend.isSupported() ? this._addProvider(backend) : null;
+    this._changed.emit();
+
+    return new DisposableDelegate(() => {
+      provider?.dispose();
+      for (const model of getLoadedModels()) {
+        if (model.backend === backend.id) {
+          unloadModel(model.backend, model.modelName);
+        }
+      }
+      backends.delete(backend.id);
+      configuredBackendModels.delete(backend.id);
+      this._changed.emit();
+    });
+  }
+
+  get(id: string): IBrowserAIBackend | undefined {
+    return backends.get(id);
+  }
+
+  initializeModel(backend: string, modelName: string): Promise<void> {
+    return initializeBackendModel(backend, modelName, 0);
+  }
 
-            const model = getOrCreateWebLLMModel(modelName);
+  getLanguageModel(backend: string, modelName: string): LanguageModelV3 {
+    getBackend(backend);
+    recordModelUsage(backend, modelName);
+    return createBackendLanguageModel(backend, modelName);
+  }
+
+  unloadModel(backend: string, modelName: string): boolean {
+    return unloadModel(backend, modelName);
+  }
+
+  private _addProvider: (backend: IBrowserAIBackend) => IDisposable;
+  private _changed = new Signal<IBrowserAIBackendRegistry, void>(this);
+}
+
+namespace BrowserAIBackendRegistry {
+  export interface IOptions {
+    /**
+     * Register the chat provider of a supported backend. Disposing the
+     * result stops following its settings.
+     */
+    addProvider: (backend: IBrowserAIBackend) => IDisposable;
+  }
+}
+
+/**
+ * Initialization data for the jupyterlab-browser-ai extension.
+ */
+export const providerRegistryPlugin: JupyterFrontEndPlugin<IBrowserAIBackendRegistry> =
+  {
+    id: PLUGIN_ID,
+    description: 'In-browser AI in JupyterLab and Jupyter Notebook',
+    autoStart: true,
+    requires: [IProviderRegistry],
+    optional: [ISettingRegistry, IAISettingsModel, ICommandPalette],
+    provides: IBrowserAIBackendRegistry,
+    activate: (
+      app: JupyterFrontEnd,
+      providerRegistry: IProviderRegistry,
+      settingRegistry: ISettingRegistry | null,
+      settingsModel: IAISettingsModelLike | null,
+      palette: ICommandPalette | null
+    ): IBrowserAIBackendRegistry => {
+      let appLayoutRestored = false;
 
-            // Pre-initialize when a model instance is created (e.g. restored chats)
-            // so first user message is less likely to block on model load.
-            void initializeWebLLMModel(modelName).catch(error => {
+      startIdleModelMonitor();
+
+      const modelLoadingSettingsReady = settingRegistry
+        ? settingRegistry
+            .load(PLUGIN_ID)
+            .then(settings => {
+              const updateModelLoadingSettings = () => {
+                const composite = settings.composite as Record<string, unknown>;
+                setModelMemoryPolicy(getModelMemoryPolicy(composite));
+                modelPreloadPolicy = getModelPreloadPolicy(
+                  composite[MODEL_PRELOAD_SETTING]
+                );
+                modelLoadingNotifications =
+                  composite[MODEL_LOADING_NOTIFICATIONS_SETTING] === true;
+                chromeAIOptions = getChromeAIOptions(composite);
+                benchmarkPrompts = getBenchmarkPrompts(
+                  composite.benchmarkPrompts
+                );
+                shareModelsAcrossTabs =
+                  composite.shareModelsAcrossTabs !== false;
+                promptToDeleteRemovedModels =
+                  composite.promptToDeleteRemovedModels !== false;
+              };
+
+              updateModelLoadingSettings();
+              settings.changed.connect(() => {
+                updateModelLoadingSettings();
+              });
+            })
+            .catch(reason => {
               console.error(
-                `Failed to initialize WebLLM model "${modelName}"`,
-                error
+                'Failed to load model loading settings for jupyterlab-browser-ai.',
+                reason
               );
-            });
+            })
+        : Promise.resolve();
+
+      // Sharing starts with the settings of the page load.
+      const modelSharingReady = modelLoadingSettingsReady.then(() =>
+        startModelSharing(
+          {
+            getLanguageModel: (backend, modelName) =>
+              createLocalLanguageModel(backend, modelName),
+            initializeModel: (backend, modelName) =>
+              initializeBackendModel(backend, modelName),
+            cancelModelLoad
+          },
+          shareModelsAcrossTabs
+        )
+      );
 
-            return model;
-          }
-        };
-        providerRegistry.registerProvider(webLLMInfo);
+      const preloadBackendModels = (backend: string) => {
+        if (settingsModel && appLayoutRestored) {
+          preloadConfiguredModels(settingsModel, backend);
+        }
+      };
+
+      const addProvider = (backend: IBrowserAIBackend): IDisposable => {
+        const { id, name } = backend;
+        let disposed = false;
+        let settingsChanged: (() => void) | null = null;
+        let loadedSettings: ISettingRegistry.ISettings | null = null;
 
-        refreshWebLLMDefaultModels = () => {
-          const providerInfo = providerRegistry.getProviderInfo('web-llm');
-          if (!providerInfo) {
+        const registerProvider = () => {
+          if (disposed) {
             return;
           }
 
-          providerInfo.defaultModels.splice(
-            0,
-            providerInfo.defaultModels.length,
-            ...configuredWebLLMModels
-          );
+          const providerInfo: IProviderInfo = {
+            id,
+            name,
+            apiKeyRequirement: 'none',
+            defaultModels: [...(configuredBackendModels.get(id) ?? [])],
+            description: backend.description,
+            supportsBaseURL: false,
+            supportsHeaders: false,
+            supportsToolCalling: backend.supportsToolCalling ?? false,
+            factory: (options: { model?: string }) => {
+              if (backends.get(id) !== backend) {
+                throw new Error(`The ${name} backend is no longer available.`);
+              }
+
+              const modelName =
+                options.model ?? configuredBackendModels.get(id)?.[0];
+              if (!modelName) {
+                throw new Error(
+                  `No ${name} model configured. Set "${backend.settings.key}" in the settings.`
+                );
+              }
+
+              recordModelUsage(id, modelName);
+
+              // Pre-initialize when a model instance is created (e.g. restored
+              // chats) so first user message is less likely to block on model
+              // load.
+              if (shouldInitializeOnModelCreation()) {
+                void initializeBackendModel(
+                  id,
+                  modelName,
+                  FACTORY_INIT_NOTIFICATION_DELAY_MS
+                ).catch(error => {
+                  console.error(
+                    `Failed to initialize ${name} model "${modelName}"`,
+                    error
+                  );
+                });
+              }
+
+              return createBackendLanguageModel(id, modelName);
+            }
+          };
+          providerRegistry.registerProvider(providerInfo);
+          preloadBackendModels(id);
         };
 
-        refreshWebLLMDefaultModels();
+        const updateConfiguredModels = (
+          settings: ISettingRegistry.ISettings
+        ) => {
+          const composite = settings.composite as Record<string, unknown>;
+          const modelNames =
+            backend.settings.update?.(composite) ??
+            getUserConfiguredModelNames(composite[backend.settings.key]);
+          configuredBackendModels.set(id, modelNames);
+          void validateConfiguredModels(backend, modelNames);
+          reconcileConfiguredModels(id, settingsModel);
+
+          const providerInfo = providerRegistry.getProviderInfo(id);
+          if (providerInfo) {
+            providerInfo.defaultModels.splice(
+              0,
+              providerInfo.defaultModels.length,
+              ...modelNames
+            );
+          }
+          preloadBackendModels(id);
+        };
+
+        if (settingRegistry) {
+          void settingRegistry
+            .load(backend.settings.pluginId ?? PLUGIN_ID)
+            .then(settings => {
+              if (disposed) {
+                return;
+              }
+
+              loadedSettings = settings;
+              settingsChanged = () => updateConfiguredModels(settings);
+              updateConfiguredModels(settings);
+              registerProvider();
+              settings.changed.connect(settingsChanged);
+            })
+            .catch(reason => {
+              console.error(`Failed to load ${name} settings.`, reason);
+              registerProvider();
+            });
+        } else {
+          registerProvider();
+        }
+
+        return new DisposableDelegate(() => {
+          disposed = true;
+          if (loadedSettings && settingsChanged) {
+            loadedSettings.changed.disconnect(settingsChanged);
+          }
+        });
       };
 
-      if (settingRegistry) {
-        void settingRegistry
-          .load(PLUGIN_ID)
-          .then(settings => {
-            const updateConfiguredWebLLMModels = () => {
-              const composite = settings.composite as Record<string, unknown>;
-              configuredWebLLMModels = getUserConfiguredModelNames(
-                composite[WEBLLM_CUSTOM_MODELS_SETTING]
-              );
-              refreshWebLLMDefaultModels?.();
-            };
+      const registry = new BrowserAIBackendRegistry({ addProvider });
+
+      app.commands.addCommand(BrowserAICommandIDs.unloadModel, {
+        label: 'Browser AI: Unload Model',
+        caption: 'Unload an in-browser model and release its memory',
+        isEnabled: () => getLoadedModels().length > 0,
+        execute: async args => {
+          let target =
+            typeof args.backend === 'string'
+              ? { backend: args.backend, modelName: args.modelId }
+              : null;
+
+          if (!target || typeof target.modelName !== 'string') {
+            const loadedModels = getLoadedModels();
+            const items = loadedModels.map(
+              model => `${model.modelName} (${getBackendLabel(model.backend)})`
+            );
+            const result = await InputDialog.getItem({
+              title: 'Unload model',
+              label: 'Model to unload',
+              items
+            });
+            if (!result.button.accept || result.value === null) {
+              return;
+            }
 
-            updateConfiguredWebLLMModels();
-            registerWebLLMProvider();
-            settings.changed.connect(() => {
-              updateConfiguredWebLLMModels();
+            target = loadedModels[items.indexOf(result.value)] ?? null;
+            if (!target) {
+              return;
+            }
+          }
+
+          const { backend, modelName } = target;
+          if (
+            typeof modelName === 'string' &&
+            unloadModel(backend, modelName)
+          ) {
+            Notification.emit(`${modelName} unloaded`, 'info', {
+              autoClose: 3000
             });
-          })
-          .catch(reason => {
-            console.error(
-              'Failed to load WebLLM settings for jupyterlab-browser-ai.',
-              reason
+          }
+        },
+        describedBy: {
+          args: {
+            type: 'object',
+            properties: {
+              backend: { type: 'string' },
+              modelId: { type: 'string' }
+            }
+          }
+        }
+      });
+
+      app.commands.addCommand(BrowserAICommandIDs.cancelModelLoad, {
+        label: 'Browser AI: Cancel Model Loading',
+        caption: 'Cancel the download or initialization of an in-browser model',
+        isEnabled: () => getLoadingModels().length > 0,
+        execute: async args => {
+          let target =
+            typeof args.backend === 'string'
+              ? { backend: args.backend, modelName: args.modelId }
+              : null;
+
+          if (!target || typeof target.modelName !== 'string') {
+            const loadingModels = getLoadingModels();
+            const items = loadingModels.map(
+              model => `${model.modelName} (${getBackendLabel(model.backend)})`
             );
-            registerWebLLMProvider();
-          });
-      } else {
-        registerWebLLMProvider();
+            const result = await InputDialog.getItem({
+              title: 'Cancel model loading',
+              label: 'Model to stop loading',
+              items
+            });
+            if (!result.button.accept || result.value === null) {
+              return;
+            }
+
+            target = loadingModels[items.indexOf(result.value)] ?? null;
+            if (!target) {
+              return;
+            }
+          }
+
+          const { backend, modelName } = target;
+          if (typeof modelName !== 'string') {
+            return;
+          }
+          // Models shown for the tab running the models load in that tab.
+          const cancelled = isMirroredModel(backend, modelName)
+            ? await cancelSharedModelLoad(backend, modelName)
+            : cancelModelLoad(backend, modelName);
+          if (cancelled) {
+            Notification.emit(`Cancelled loading ${modelName}`, 'info', {
+              autoClose: 3000
+            });
+          }
+        },
+        describedBy: {
+          args: {
+            type: 'object',
+            properties: {
+              backend: { type: 'string' },
+              modelId: { type: 'string' }
+            }
+          }
+        }
+      });
+
+      if (palette) {
+        palette.addItem({
+          command: BrowserAICommandIDs.unloadModel,
+          category: 'Browser AI'
+        });
+        palette.addItem({
+          command: BrowserAICommandIDs.cancelModelLoad,
+          category: 'Browser AI'
+        });
       }
-    }
 
-    if (doesBrowserSupportTransformersJS()) {
-      const registerTransformersProvider = () => {
-        const transformersInfo: IProviderInfo = {
-          id: 'transformers-js',
-          name: 'Transformers.js',
+      if (doesBrowserSupportBrowserAI()) {
+        const chromeAIInfo: IProviderInfo = {
+          id: 'chrome-ai',
+          name: 'Chrome Built-in AI',
           apiKeyRequirement: 'none',
-          defaultModels: [...configuredTransformersModels],
-          description: TRANSFORMERS_PROVIDER_DESCRIPTION,
+          defaultModels: ['chrome-ai'],
           supportsBaseURL: false,
           supportsHeaders: false,
           supportsToolCalling: true,
-          factory: (options: { model?: string }) => {
-            const modelName = options.model ?? configuredTransformersModels[0];
-            if (!modelName) {
-              throw new Error(
-                'No Transformers.js model configured. Set "transformersJsModels" in jupyterlab-browser-ai settings.'
-              );
+          factory: () => {
+            return createChromeAIModel(chromeAIOptions);
+          }
+        };
+
+        providerRegistry.registerProvider(chromeAIInfo);
+        setBackendLabel(chromeAIInfo.id, chromeAIInfo.name);
+      }
+
+      registry.register(webLLMBackend);
+      registry.register(transformersBackend);
+      registry.register(llamaCppBackend);
+
+      app.commands.addCommand(BrowserAICommandIDs.downloadModel, {
+        label: 'Browser AI: Download Model',
+        caption: 'Download and load a configured in-browser model',
+        execute: async args => {
+          const availableModels = registry.backends
+            .filter(backend => backend.isSupported())
+            .flatMap(backend =>
+              (configuredBackendModels.get(backend.id) ?? []).map(
+                modelName => ({ backend: backend.id, modelName })
+              )
+            );
+
+          let target = availableModels.find(
+            model =>
+              model.backend === args.backend && model.modelName === args.modelId
+          );
+
+          if (!target) {
+            const items = availableModels.map(
+              model => `${model.modelName} (${getBackendLabel(model.backend)})`
+            );
+            const result = await InputDialog.getItem({
+              title: 'Download model',
+              label: 'Model to download',
+              items
+            });
+            if (!result.button.accept || result.value === null) {
+              return;
             }
-            const model = getOrCreateTransformersModel(modelName);
-
-            // Pre-initialize when a model instance is created (e.g. restored chats)
-            // so first user message is less likely to block on model load.
-            void initializeTransformersModel(
-              modelName,
-              FACTORY_INIT_NOTIFICATION_DELAY_MS
-            ).catch(error => {
-              console.error(
-                `Failed to initialize Transformers.js model "${modelName}"`,
-                error
-              );
+
+            target = availableModels[items.indexOf(result.value)];
+            if (!target) {
+              return;
+            }
+          }
+
+          const { backend, modelName } = target;
+          try {
+            await registry.initializeModel(backend, modelName);
+          } catch (error) {
+            console.error(
+              `Failed to initialize ${getBackendLabel(backend)} model "${modelName}"`,
+              error
+            );
+          }
+        },
+        describedBy: {
+          args: {
+            type: 'object',
+            properties: {
+              backend: { type: 'string' },
+              modelId: { type: 'string' }
+            }
+          }
+        }
+      });
+
+      app.commands.addCommand(BrowserAICommandIDs.benchmarkModels, {
+        label: 'Browser AI: Benchmark Models',
+        caption:
+          'Run a prompt suite against every configured in-browser model and write the results to a notebook',
+        execute: async args => {
+          const prompts = Array.isArray(args.prompts)
+            ? getBenchmarkPrompts(args.prompts)
+            : benchmarkPrompts;
+          const includesBackend = (backend: string) =>
+            typeof args.backend !== 'string' || args.backend === backend;
+
+          const targets: IBenchmarkTarget[] = registry.backends
+            .filter(
+              backend => backend.isSupported() && includesBackend(backend.id)
+            )
+            .flatMap(backend =>
+              (configuredBackendModels.get(backend.id) ?? []).map(
+                modelName => ({
+                  backend: backend.id,
+                  modelName,
+                  load: () => registry.initializeModel(backend.id, modelName),
+                  getModel: () =>
+                    createBackendLanguageModel(backend.id, modelName),
+                  unload: () => {
+                    unloadModel(backend.id, modelName);
+                  }
+                })
+              )
+            );
+          if (doesBrowserSupportBrowserAI() && includesBackend('chrome-ai')) {
+            targets.push({
+              backend: 'chrome-ai',
+              modelName: 'chrome-ai',
+              getModel: () => createChromeAIModel(chromeAIOptions)
             });
+          }
 
-            return model;
+          if (targets.length === 0) {
+            Notification.emit('No in-browser model to benchmark', 'warning', {
+              autoClose: 5000
+            });
+            return;
           }
-        };
-        providerRegistry.registerProvider(transformersInfo);
 
-        refreshTransformersDefaultModels = () => {
-          const providerInfo =
-            providerRegistry.getProviderInfo('transformers-js');
-          if (!providerInfo) {
+          const confirmation = await showDialog({
+            title: 'Benchmark models',
+            body: `Run ${prompts.length} prompts against ${targets.length} models, one at a time? Loaded models are unloaded first, and models that are not in the browser cache are downloaded.`,
+            buttons: [
+              Dialog.cancelButton(),
+              Dialog.okButton({ label: 'Benchmark' })
+            ]
+          });
+          if (!confirmation.button.accept) {
             return;
           }
 
-          providerInfo.defaultModels.splice(
-            0,
-            providerInfo.defaultModels.length,
-            ...configuredTransformersModels
+          for (const model of getLoadedModels()) {
+            unloadModel(model.backend, model.modelName);
+          }
+
+          const controller = new AbortController();
+          const notificationId = Notification.emit(
+            'Starting the benchmark...',
+            'in-progress',
+            {
+              autoClose: false,
+              progress: 0,
+              actions: [
+                {
+                  label: 'Cancel',
+                  callback: () => controller.abort()
+                }
+              ]
+            }
           );
-        };
 
-        refreshTransformersDefaultModels();
-      };
+          try {
+            const results = await runBenchmark(targets, prompts, {
+              signal: controller.signal,
+              onProgress: (message, progress) => {
+                Notification.update({ id: notificationId, message, progress });
+              }
+            });
 
-      if (settingRegistry) {
-        void settingRegistry
-          .load(PLUGIN_ID)
-          .then(settings => {
-            const updateConfiguredTransformersModels = () => {
-              const composite = settings.composite as Record<string, unknown>;
-              configuredTransformersModels = getUserConfiguredModelNames(
-                composite[TRANSFORMERS_CUSTOM_MODELS_SETTING]
-              );
-              refreshTransformersDefaultModels?.();
-            };
+            const timestamp = new Date()
+              .toISOString()
+              .replace(/\.\d+Z$/, '')
+              .replace(/:/g, '-');
+            const path = `browser-ai-benchmark-${timestamp}.ipynb`;
+            await app.serviceManager.contents.save(path, {
+              type: 'notebook',
+              format: 'json',
+              content: createBenchmarkNotebook(results, prompts)
+            });
 
-            updateConfiguredTransformersModels();
-            registerTransformersProvider();
-            settings.changed.connect(() => {
-              updateConfiguredTransformersModels();
+            Notification.update({
+              id: notificationId,
+              message: `Benchmark results saved as ${path}`,
+              type: 'success',
+              progress: 1,
+              autoClose: 5000,
+              actions: []
             });
-          })
-          .catch(reason => {
-            console.error(
-              'Failed to load settings for jupyterlab-browser-ai.',
-              reason
-            );
-            registerTransformersProvider();
-          });
-      } else {
-        registerTransformersProvider();
+            await app.commands.execute('docmanager:open', { path });
+          } catch (error) {
+            if (controller.signal.aborted) {
+              Notification.dismiss(notificationId);
+              return;
+            }
+
+            console.error('Failed to benchmark the in-browser models', error);
+            Notification.update({
+              id: notificationId,
+              message: `Benchmark failed: ${
+                error instanceof Error ? error.message : 'Unknown error'
+              }`,
+              type: 'error',
+              autoClose: 5000,
+              actions: []
+            });
+          }
+        },
+        describedBy: {
+          args: {
+            type: 'object',
+            properties: {
+              backend: { type: 'string' },
+              prompts: { type: 'array', items: { type: 'string' } }
+            }
+          }
+        }
+      });
+
+      if (palette) {
+        palette.addItem({
+          command: BrowserAICommandIDs.downloadModel,
+          category: 'Browser AI'
+        });
+        palette.addItem({
+          command: BrowserAICommandIDs.benchmarkModels,
+          category: 'Browser AI'
+        });
       }
-    }
 
-    if (settingsModel) {
-      let appLayoutRestored = false;
+      if (settingsModel) {
+        const preloadAllBackendModels = () => {
+          for (const backend of registry.backends) {
+            if (backend.isSupported()) {
+              preloadBackendModels(backend.id);
+            }
+          }
+        };
 
-      void app.restored.then(() => {
-        appLayoutRestored = true;
+        void Promise.all([app.restored, modelSharingReady]).then(() => {
+          appLayoutRestored = true;
 
-        // Preload models already configured in providers on startup so
-        // initialization/download notifications show before first chat message.
-        if (doesBrowserSupportWebLLM()) {
-          preloadConfiguredWebLLMModels(settingsModel);
-        }
+          // Preload models already configured in providers on startup so
+          // initialization/download notifications show before first chat
+          // message.
+          preloadAllBackendModels();
+        });
 
-        if (doesBrowserSupportTransformersJS()) {
-          preloadConfiguredTransformersModels(settingsModel);
-        }
-      });
+        // Load the models of the closed tab which ran them.
+        modelSharingRoleChanged.connect((_, role) => {
+          if (role === 'leader' && appLayoutRestored) {
+            preloadAllBackendModels();
+          }
+        });
 
-      settingsModel.stateChanged.connect(() => {
-        // Ignore initial settings hydration on startup. Only preload when
-        // users update provider configuration in the UI.
-        if (!appLayoutRestored) {
-          return;
-        }
+        settingsModel.stateChanged.connect(() => {
+          for (const backend of registry.backends) {
+            if (backend.isSupported()) {
+              reconcileConfiguredModels(backend.id, settingsModel);
+            }
+          }
 
-        if (doesBrowserSupportWebLLM()) {
-          preloadConfiguredWebLLMModels(settingsModel);
-        }
+          // Ignore initial settings hydration on startup. Only preload when
+          // users update provider configuration in the UI.
+          if (!appLayoutRestored) {
+            return;
+          }
 
-        if (doesBrowserSupportTransformersJS()) {
-          preloadConfiguredTransformersModels(settingsModel);
-        }
-      });
+          preloadAllBackendModels();
+        });
+      }
+
+      return registry;
     }
-  }
-};
+  };
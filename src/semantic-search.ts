@@ -0,0 +1,689 @@
+import {
+  ILayoutRestorer,
+  JupyterFrontEnd,
+  JupyterFrontEndPlugin
+} from '@jupyterlab/application';
+
+import { ICommandPalette } from '@jupyterlab/apputils';
+import { PathExt } from '@jupyterlab/coreutils';
+import { NotebookPanel } from '@jupyterlab/notebook';
+import { Contents } from '@jupyterlab/services';
+import { ISettingRegistry } from '@jupyterlab/settingregistry';
+import { searchIcon } from '@jupyterlab/ui-components';
+
+import { CommandRegistry } from '@lumino/commands';
+import { Widget } from '@lumino/widgets';
+
+import { doesBrowserSupportTransformersJS } from '@browser-ai/transformers-js';
+
+import { BrowserAICommandIDs, PLUGIN_ID } from './browser-ai-shared';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  TransformersEmbeddingModel
+} from './embeddings';
+import { openDatabase, requestToPromise, transactionDone } from './indexeddb';
+
+const DATABASE_NAME = 'jupyterlab-browser-ai-semantic-search';
+const DATABASE_VERSION = 1;
+const FILES_STORE = 'files';
+const CHUNKS_STORE = 'chunks';
+
+const DEFAULT_INDEXED_EXTENSIONS = ['.ipynb', '.md', '.py', '.txt'];
+const MAX_INDEXED_FILE_SIZE = 1024 * 1024;
+const MAX_CHUNK_LENGTH = 1000;
+const MAX_RESULTS = 20;
+const FILE_CHANGE_DELAY_MS = 1000;
+
+/**
+ * A piece of a file embedded on its own: a notebook cell, or a few
+ * paragraphs of a text file.
+ */
+interface ISearchChunk {
+  id: string;
+  path: string;
+  modelId: string;
+  cellIndex: number | null;
+  line: number | null;
+  text: string;
+  vector: Float32Array;
+}
+
+/**
+ * The version of a file the chunks were computed from.
+ */
+interface IIndexedFile {
+  path: string;
+  modelId: string;
+  lastModified: string;
+}
+
+/**
+ * A chunk matching a search query.
+ */
+export interface ISearchResult {
+  path: string;
+  cellIndex: number | null;
+  line: number | null;
+  text: string;
+  score: number;
+}
+
+/**
+ * Options of the semantic search, from the plugin settings.
+ */
+interface ISemanticSearchOptions {
+  modelId: string;
+  extensions: string[];
+}
+
+function getSemanticSearchOptions(
+  composite: Record<string, unknown>
+): ISemanticSearchOptions {
+  const modelId =
+    typeof composite.semanticSearchModel === 'string' &&
+    composite.semanticSearchModel.trim() !== ''
+      ? composite.semanticSearchModel.trim()
+      : DEFAULT_EMBEDDING_MODEL;
+
+  const extensions = Array.isArray(composite.semanticSearchExtensions)
+    ? composite.semanticSearchExtensions
+        .filter(
+          (extension): extension is string => typeof extension === 'string'
+        )
+        .map(extension => extension.trim().toLowerCase())
+        .filter(extension => extension !== '')
+    : DEFAULT_INDEXED_EXTENSIONS;
+
+  return { modelId, extensions };
+}
+
+function getCellSource(source: unknown): string {
+  return Array.isArray(source) ? source.join('') : String(source ?? '');
+}
+
+/**
+ * Split a file into chunks: one per notebook cell, or paragraphs grouped up
+ * to `MAX_CHUNK_LENGTH` characters for text files.
+ */
+function splitIntoChunks(
+  model: Contents.IModel
+): Array<Pick<ISearchChunk, 'cellIndex' | 'line' | 'text'>> {
+  if (model.type === 'notebook') {
+    const cells: Array<{ source?: unknown }> = model.content?.cells ?? [];
+    return cells
+      .map((cell, cellIndex) => ({
+        cellIndex,
+        line: null,
+        text: getCellSource(cell.source)
+          .trim()
+          .slice(0, MAX_CHUNK_LENGTH * 2)
+      }))
+      .filter(chunk => chunk.text !== '');
+  }
+
+  const chunks: Array<Pick<ISearchChunk, 'cellIndex' | 'line' | 'text'>> = [];
+  const lines = String(model.content ?? '').split('\n');
+  let text = '';
+  let startLine = 0;
+
+  const flush = () => {
+    if (text.trim() !== '') {
+      chunks.push({ cellIndex: null, line: startLine + 1, text: text.trim() });
+    }
+    text = '';
+  };
+
+  lines.forEach((line, index) => {
+    if (text === '') {
+      startLine = index;
+    }
+    text += `${line}\n`;
+    if (
+      text.length >= MAX_CHUNK_LENGTH ||
+      (line.trim() === '' && text.length >= MAX_CHUNK_LENGTH / 2)
+    ) {
+      flush();
+    }
+  });
+  flush();
+
+  return chunks;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Embeddings of the workspace files, kept in IndexedDB so they survive page
+ * reloads.
+ */
+class SemanticSearchIndex {
+  constructor(contents: Contents.IManager) {
+    this._contents = contents;
+  }
+
+  /**
+   * The options used for the next indexing and search.
+   */
+  get options(): ISemanticSearchOptions {
+    return this._options;
+  }
+  set options(options: ISemanticSearchOptions) {
+    if (options.modelId !== this._options.modelId) {
+      this._model?.dispose();
+      this._model = null;
+      this._chunks = null;
+    }
+    this._options = options;
+  }
+
+  /**
+   * Whether the workspace has been indexed with the current model.
+   */
+  async isEmpty(): Promise<boolean> {
+    return (await this._getChunks()).length === 0;
+  }
+
+  /**
+   * Embed the files changed since they were last indexed, and forget the
+   * deleted ones.
+   */
+  async indexWorkspace(onProgress: (message: string) => void): Promise<void> {
+    onProgress('Listing files...');
+    const paths = await this._listFiles('');
+
+    const database = await this._getDatabase();
+    const indexedFiles: IIndexedFile[] = await requestToPromise(
+      database.transaction(FILES_STORE).objectStore(FILES_STORE).getAll()
+    );
+
+    const currentPaths = new Set(paths.map(file => file.path));
+    for (const file of indexedFiles) {
+      if (!currentPaths.has(file.path)) {
+        await this.removeFile(file.path);
+      }
+    }
+
+    const indexed = new Map(indexedFiles.map(file => [file.path, file]));
+    const changed = paths.filter(file => {
+      const previous = indexed.get(file.path);
+      return (
+        !previous ||
+        previous.modelId !== this._options.modelId ||
+        previous.lastModified !== file.last_modified
+      );
+    });
+
+    await this._loadModel(onProgress);
+
+    for (const [index, file] of changed.entries()) {
+      onProgress(`Indexing ${index + 1}/${changed.length}: ${file.path}`);
+      try {
+        await this.indexFile(file.path);
+      } catch (error) {
+        console.warn(`Failed to index "${file.path}"`, error);
+      }
+    }
+  }
+
+  /**
+   * Embed a single file, replacing its previous chunks.
+   */
+  async indexFile(path: string): Promise<void> {
+    const type =
+      PathExt.extname(path).toLowerCase() === '.ipynb' ? 'notebook' : 'file';
+    const model = await this._contents.get(path, {
+      content: true,
+      type,
+      format: type === 'file' ? 'text' : undefined
+    });
+
+    const { modelId } = this._options;
+    const chunks = splitIntoChunks(model);
+    const vectors = await (
+      await this._loadModel()
+    ).embed(chunks.map(chunk => chunk.text));
+
+    const database = await this._getDatabase();
+    const transaction = database.transaction(
+      [FILES_STORE, CHUNKS_STORE],
+      'readwrite'
+    );
+    this._deleteChunks(transaction, path);
+    const chunkStore = transaction.objectStore(CHUNKS_STORE);
+    chunks.forEach((chunk, index) => {
+      const entry: ISearchChunk = {
+        ...chunk,
+        id: `${path}\u0000${index}`,
+        path,
+        modelId,
+        vector: new Float32Array(vectors[index])
+      };
+      chunkStore.put(entry);
+    });
+    const file: IIndexedFile = {
+      path,
+      modelId,
+      lastModified: model.last_modified
+    };
+    transaction.objectStore(FILES_STORE).put(file);
+    await transactionDone(transaction);
+
+    this._chunks = null;
+  }
+
+  /**
+   * Forget the chunks of a file.
+   */
+  async removeFile(path: string): Promise<void> {
+    const database = await this._getDatabase();
+    const transaction = database.transaction(
+      [FILES_STORE, CHUNKS_STORE],
+      'readwrite'
+    );
+    this._deleteChunks(transaction, path);
+    transaction.objectStore(FILES_STORE).delete(path);
+    await transactionDone(transaction);
+
+    this._chunks = null;
+  }
+
+  /**
+   * Whether a file is indexed, based on its extension and size.
+   */
+  isIndexable(model: Partial<Contents.IModel>): boolean {
+    return (
+      typeof model.path === 'string' &&
+      (model.type === 'notebook' || model.type === 'file') &&
+      !model.path.split('/').some(part => part.startsWith('.')) &&
+      this._options.extensions.includes(
+        PathExt.extname(model.path).toLowerCase()
+      ) &&
+      (typeof model.size !== 'number' || model.size <= MAX_INDEXED_FILE_SIZE)
+    );
+  }
+
+  /**
+   * The chunks closest to a natural-language query, best first.
+   */
+  async search(
+    query: string,
+    onProgress: (message: string) => void
+  ): Promise<ISearchResult[]> {
+    const model = await this._loadModel(onProgress);
+    const [vector] = await model.embed([query]);
+    const queryVector = new Float32Array(vector);
+
+    return (await this._getChunks())
+      .map(chunk => ({
+        path: chunk.path,
+        cellIndex: chunk.cellIndex,
+        line: chunk.line,
+        text: chunk.text,
+        score: dot(queryVector, chunk.vector)
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS);
+  }
+
+  private async _loadModel(
+    onProgress?: (message: string) => void
+  ): Promise<TransformersEmbeddingModel> {
+    if (!this._model) {
+      this._model = new TransformersEmbeddingModel(this._options.modelId);
+    }
+    const model = this._model;
+    await model.load(progress => {
+      onProgress?.(
+        `Loading ${model.modelId}... ${Math.round(progress * 100)}%`
+      );
+    });
+    return model;
+  }
+
+  private async _listFiles(directory: string): Promise<Contents.IModel[]> {
+    const listing = await this._contents.get(directory, { content: true });
+    const files: Contents.IModel[] = [];
+    for (const item of (listing.content ?? []) as Contents.IModel[]) {
+      if (item.name.startsWith('.') || item.name === 'node_modules') {
+        continue;
+      }
+      if (item.type === 'directory') {
+        files.push(...(await this._listFiles(item.path)));
+      } else if (this.isIndexable(item)) {
+        files.push(item);
+      }
+    }
+    return files;
+  }
+
+  private async _getChunks(): Promise<ISearchChunk[]> {
+    if (!this._chunks) {
+      const database = await this._getDatabase();
+      const chunks: ISearchChunk[] = await requestToPromise(
+        database.transaction(CHUNKS_STORE).objectStore(CHUNKS_STORE).getAll()
+      );
+      this._chunks = chunks.filter(
+        chunk => chunk.modelId === this._options.modelId
+      );
+    }
+    return this._chunks;
+  }
+
+  private _deleteChunks(transaction: IDBTransaction, path: string): void {
+    // Chunk IDs are the path and the chunk index separated by a NUL, which
+    // paths cannot contain: a key range deletes them before any new chunk is
+    // put in the same transaction.
+    transaction
+      .objectStore(CHUNKS_STORE)
+      .delete(IDBKeyRange.bound(`${path}\u0000`, `${path}\u0001`, false, true));
+  }
+
+  private _getDatabase(): Promise<IDBDatabase> {
+    if (!this._database) {
+      this._database = openDatabase(
+        DATABASE_NAME,
+        DATABASE_VERSION,
+        database => {
+          database.createObjectStore(FILES_STORE, { keyPath: 'path' });
+          database.createObjectStore(CHUNKS_STORE, { keyPath: 'id' });
+        }
+      );
+    }
+    return this._database;
+  }
+
+  private _contents: Contents.IManager;
+  private _options: ISemanticSearchOptions = {
+    modelId: DEFAULT_EMBEDDING_MODEL,
+    extensions: DEFAULT_INDEXED_EXTENSIONS
+  };
+  private _model: TransformersEmbeddingModel | null = null;
+  private _database: Promise<IDBDatabase> | null = null;
+  private _chunks: ISearchChunk[] | null = null;
+}
+
+/**
+ * A sidebar to search the workspace files in natural language.
+ */
+class SemanticSearchPanel extends Widget {
+  constructor(options: SemanticSearchPanel.IOptions) {
+    super();
+    this._commands = options.commands;
+    this._index = options.index;
+    this.addClass('jp-browser-ai-search-panel');
+    this.id = 'jp-browser-ai-semantic-search';
+    this.title.icon = searchIcon;
+    this.title.caption = 'Semantic Search';
+
+    const header = document.createElement('div');
+    header.className = 'jp-browser-ai-search-header';
+    const title = document.createElement('h2');
+    title.textContent = 'Semantic Search';
+    const indexButton = document.createElement('button');
+    indexButton.className = 'jp-mod-styled jp-browser-ai-search-button';
+    indexButton.textContent = 'Index';
+    indexButton.title = 'Embed the files changed since the last indexing';
+    indexButton.addEventListener('click', () => {
+      void this.indexWorkspace();
+    });
+    header.append(title, indexButton);
+
+    const form = document.createElement('form');
+    form.className = 'jp-browser-ai-search-form';
+    this._input = document.createElement('input');
+    this._input.type = 'search';
+    this._input.className = 'jp-mod-styled';
+    this._input.placeholder = 'Describe what you are looking for';
+    form.appendChild(this._input);
+    form.addEventListener('submit', event => {
+      event.preventDefault();
+      void this.search(this._input.value);
+    });
+
+    this._status = document.createElement('p');
+    this._status.className = 'jp-browser-ai-search-status';
+
+    this._results = document.createElement('ul');
+    this._results.className = 'jp-browser-ai-search-results';
+
+    this.node.append(header, form, this._status, this._results);
+  }
+
+  /**
+   * Index the workspace, unless an indexing is already running.
+   */
+  indexWorkspace(): Promise<void> {
+    if (!this._indexing) {
+      this._indexing = this._index
+        .indexWorkspace(message => this._setStatus(message))
+        .then(() => this._setStatus('Workspace indexed.'))
+        .catch(error => {
+          console.error('Failed to index the workspace', error);
+          this._setStatus(`Indexing failed: ${error.message ?? error}`);
+        })
+        .finally(() => {
+          this._indexing = null;
+        });
+    }
+    return this._indexing;
+  }
+
+  /**
+   * Search the indexed files, indexing the workspace first if needed.
+   */
+  async search(query: string): Promise<void> {
+    query = query.trim();
+    if (query === '') {
+      return;
+    }
+
+    try {
+      if (this._indexing || (await this._index.isEmpty())) {
+        await this.indexWorkspace();
+      }
+      const results = await this._index.search(query, message =>
+        this._setStatus(message)
+      );
+      this._setStatus(
+        results.length > 0 ? '' : 'No results. Try indexing the workspace.'
+      );
+      this._renderResults(results);
+    } catch (error) {
+      console.error('Semantic search failed', error);
+      this._setStatus(
+        `Search failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  protected onActivateRequest(): void {
+    this._input.focus();
+  }
+
+  private _setStatus(message: string): void {
+    this._status.textContent = message;
+  }
+
+  private _renderResults(results: ISearchResult[]): void {
+    this._results.replaceChildren();
+    for (const result of results) {
+      const item = document.createElement('li');
+      item.className = 'jp-browser-ai-search-result';
+      item.tabIndex = 0;
+
+      const location = document.createElement('span');
+      location.className = 'jp-browser-ai-search-location';
+      location.textContent =
+        result.cellIndex !== null
+          ? `${result.path} · cell ${result.cellIndex + 1}`
+          : `${result.path}:${result.line}`;
+      location.title = `Similarity ${result.score.toFixed(2)}`;
+
+      const snippet = document.createElement('span');
+      snippet.className = 'jp-browser-ai-search-snippet';
+      snippet.textContent = result.text;
+
+      item.append(location, snippet);
+      const open = () => void this._openResult(result);
+      item.addEventListener('click', open);
+      item.addEventListener('keydown', event => {
+        if (event.key === 'Enter') {
+          open();
+        }
+      });
+      this._results.appendChild(item);
+    }
+  }
+
+  private async _openResult(result: ISearchResult): Promise<void> {
+    const widget = await this._commands.execute('docmanager:open', {
+      path: result.path
+    });
+    if (!(widget instanceof NotebookPanel) || result.cellIndex === null) {
+      return;
+    }
+
+    await widget.context.ready;
+    const notebook = widget.content;
+    const cell = notebook.widgets[result.cellIndex];
+    if (cell) {
+      notebook.activeCellIndex = result.cellIndex;
+      await notebook.scrollToCell(cell);
+    }
+  }
+
+  private _commands: CommandRegistry;
+  private _index: SemanticSearchIndex;
+  private _indexing: Promise<void> | null = null;
+  private _input: HTMLInputElement;
+  private _status: HTMLParagraphElement;
+  private _results: HTMLUListElement;
+}
+
+namespace SemanticSearchPanel {
+  export interface IOptions {
+    commands: CommandRegistry;
+    index: SemanticSearchIndex;
+  }
+}
+
+/**
+ * A plugin providing a sidebar to search the workspace files with an
+ * in-browser embedding model.
+ */
+export const semanticSearchPlugin: JupyterFrontEndPlugin<void> = {
+  id: 'jupyterlab-browser-ai:semantic-search',
+  description:
+    'Semantic search over workspace files with in-browser embeddings',
+  autoStart: true,
+  optional: [ISettingRegistry, ICommandPalette, ILayoutRestorer],
+  activate: (
+    app: JupyterFrontEnd,
+    settingRegistry: ISettingRegistry | null,
+    palette: ICommandPalette | null,
+    restorer: ILayoutRestorer | null
+  ) => {
+    if (!doesBrowserSupportTransformersJS() || !window.indexedDB) {
+      console.log('Semantic search not supported in this browser');
+      return;
+    }
+
+    const { contents } = app.serviceManager;
+    const index = new SemanticSearchIndex(contents);
+
+    if (settingRegistry) {
+      settingRegistry
+        .load(PLUGIN_ID)
+        .then(settings => {
+          const updateOptions = () => {
+            index.options = getSemanticSearchOptions(
+              settings.composite as Record<string, unknown>
+            );
+          };
+          updateOptions();
+          settings.changed.connect(updateOptions);
+        })
+        .catch(reason => {
+          console.error(
+            'Failed to load semantic search settings for jupyterlab-browser-ai.',
+            reason
+          );
+        });
+    }
+
+    const panel = new SemanticSearchPanel({ commands: app.commands, index });
+    app.shell.add(panel, 'left', { rank: 950 });
+
+    if (restorer) {
+      restorer.add(panel, panel.id);
+    }
+
+    // Keep the index up to date once the workspace has been indexed.
+    const pendingChanges = new Map<string, number>();
+    const scheduleChange = (path: string, update: () => Promise<void>) => {
+      window.clearTimeout(pendingChanges.get(path));
+      pendingChanges.set(
+        path,
+        window.setTimeout(() => {
+          pendingChanges.delete(path);
+          void index
+            .isEmpty()
+            .then(isEmpty => (isEmpty ? undefined : update()))
+            .catch(error => {
+              console.warn(`Failed to update the index of "${path}"`, error);
+            });
+        }, FILE_CHANGE_DELAY_MS)
+      );
+    };
+
+    contents.fileChanged.connect((_, change) => {
+      const { oldValue, newValue } = change;
+      if (
+        (change.type === 'delete' || change.type === 'rename') &&
+        oldValue?.path
+      ) {
+        const path = oldValue.path;
+        scheduleChange(path, () => index.removeFile(path));
+      }
+      if (change.type !== 'delete' && newValue && index.isIndexable(newValue)) {
+        const path = newValue.path!;
+        scheduleChange(path, () => index.indexFile(path));
+      }
+    });
+
+    app.commands.addCommand(BrowserAICommandIDs.openSemanticSearch, {
+      label: 'Browser AI: Semantic Search',
+      caption: 'Search the workspace files in natural language',
+      icon: searchIcon,
+      execute: () => {
+        app.shell.activateById(panel.id);
+      }
+    });
+
+    app.commands.addCommand(BrowserAICommandIDs.indexWorkspace, {
+      label: 'Browser AI: Index Workspace for Semantic Search',
+      caption: 'Embed the workspace files changed since the last indexing',
+      execute: () => {
+        app.shell.activateById(panel.id);
+        return panel.indexWorkspace();
+      }
+    });
+
+    if (palette) {
+      palette.addItem({
+        command: BrowserAICommandIDs.openSemanticSearch,
+        category: 'Browser AI'
+      });
+      palette.addItem({
+        command: BrowserAICommandIDs.indexWorkspace,
+        category: 'Browser AI'
+      });
+    }
+  }
+};
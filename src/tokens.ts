@@ -0,0 +1,208 @@
+import type { LanguageModelV3 } from '@ai-sdk/provider';
+
+import { Token } from '@lumino/coreutils';
+import { IDisposable } from '@lumino/disposable';
+import { ISignal } from '@lumino/signaling';
+
+/**
+ * The availability of a model, as reported by the AI SDK browser providers.
+ */
+export type BrowserAIModelAvailability =
+  'unavailable' | 'downloadable' | 'downloading' | 'available';
+
+/**
+ * Progress of a model download or initialization.
+ */
+export interface IBrowserAIProgress {
+  /**
+   * Progress between 0 and 1.
+   */
+  progress: number;
+  /**
+   * Whether the weights are being downloaded or compiled. Defaults to
+   * `downloading` until the progress reaches 1.
+   */
+  phase?: 'downloading' | 'compiling';
+  /**
+   * A message shown in the loading notification.
+   */
+  message?: string;
+}
+
+/**
+ * A model created by an in-browser backend.
+ */
+export interface IBrowserAIBackendModel {
+  /**
+   * The language model used by the chats.
+   */
+  readonly languageModel: LanguageModelV3;
+  /**
+   * The worker running the model, watched for crashes.
+   */
+  readonly worker?: Worker;
+  /**
+   * Whether the model is ready, or has to be downloaded first.
+   */
+  availability(): Promise<BrowserAIModelAvailability>;
+  /**
+   * Download the model if needed and load it, reporting progress.
+   */
+  initialize(onProgress: (progress: IBrowserAIProgress) => void): Promise<void>;
+  /**
+   * Release the model, e.g. by terminating its worker. Pending calls do not
+   * have to settle.
+   */
+  dispose(): void;
+}
+
+/**
+ * Where a backend reads the models offered in the chat provider settings.
+ */
+export interface IBrowserAIBackendSettings {
+  /**
+   * The plugin whose settings list the models. Defaults to the settings of
+   * jupyterlab-browser-ai.
+   */
+  pluginId?: string;
+  /**
+   * The setting listing the models, either as model IDs or as objects with an
+   * `id`.
+   */
+  key: string;
+  /**
+   * Apply the settings of the backend, when they are loaded and on change.
+   * Returns the model IDs to offer, when they are not only those of `key`.
+   */
+  update?(composite: Record<string, unknown>): string[] | void;
+}
+
+/**
+ * A model with files in the browser storage.
+ */
+export interface IBrowserAICachedModel {
+  modelId: string;
+  /**
+   * The size of the cached files in bytes.
+   */
+  sizeBytes: number;
+  /**
+   * Whether the files belong to no known model, e.g. one removed from the
+   * settings. The model ID is then the URL of the files.
+   */
+  removed?: boolean;
+}
+
+/**
+ * An in-browser AI backend, exposed as a chat provider.
+ */
+export interface IBrowserAIBackend {
+  /**
+   * The chat provider ID.
+   */
+  readonly id: string;
+  /**
+   * The name shown in the chat provider settings and the model UI.
+   */
+  readonly name: string;
+  readonly description?: string;
+  readonly supportsToolCalling?: boolean;
+  readonly settings: IBrowserAIBackendSettings;
+  /**
+   * Whether the backend runs in this browser.
+   */
+  isSupported(): boolean;
+  /**
+   * Create a model. Called again after the model is disposed.
+   */
+  createModel(modelName: string): IBrowserAIBackendModel;
+  /**
+   * Whether the weights of a model are in the browser cache, so it can be
+   * loaded when downloads are disabled.
+   */
+  isModelCached?(modelName: string): Promise<boolean>;
+  /**
+   * The number of tokens a model attends to, or null when unknown. Prompts
+   * longer than this are trimmed before generation.
+   */
+  getContextWindow?(modelName: string): Promise<number | null>;
+  /**
+   * Why a configured model cannot be loaded, e.g. a typo in its ID, or null
+   * when it looks valid or cannot be checked.
+   */
+  validateModel?(modelName: string): Promise<string | null>;
+  /**
+   * The number of bytes downloaded to load a model, or null when unknown.
+   * Downloads that do not fit in the storage quota are refused.
+   */
+  getModelDownloadSize?(modelName: string): Promise<number | null>;
+  /**
+   * Whether the cached files of a model are complete.
+   */
+  verifyModelCache?(modelName: string): Promise<boolean>;
+  /**
+   * Delete the cached files of a model, to download it again.
+   */
+  deleteModelCache?(modelName: string): Promise<void>;
+  /**
+   * The models with files in the browser storage, shown in the model storage
+   * panel. The configured models name the files that do not identify their
+   * model.
+   */
+  listCachedModels?(
+    configuredModelNames: string[]
+  ): Promise<IBrowserAICachedModel[]>;
+  /**
+   * Delete the cached files of every model of the backend.
+   */
+  clearModelCache?(): Promise<void>;
+}
+
+/**
+ * The registry of in-browser AI backends.
+ *
+ * Models of registered backends share the loading status bar item, the
+ * notifications, preloading, cancellation, crash recovery and the memory
+ * policy.
+ */
+export interface IBrowserAIBackendRegistry {
+  /**
+   * The registered backends.
+   */
+  readonly backends: ReadonlyArray<IBrowserAIBackend>;
+  /**
+   * A signal emitted when a backend is registered or removed.
+   */
+  readonly changed: ISignal<IBrowserAIBackendRegistry, void>;
+  /**
+   * Register a backend and its chat provider. Disposing the result unloads
+   * its models; its chat provider stays listed but can no longer create
+   * models.
+   */
+  register(backend: IBrowserAIBackend): IDisposable;
+  /**
+   * Get a registered backend.
+   */
+  get(id: string): IBrowserAIBackend | undefined;
+  /**
+   * Download and load a model.
+   */
+  initializeModel(backend: string, modelName: string): Promise<void>;
+  /**
+   * Get a model for use outside of chats. The model is loaded on first call
+   * and shares the lifecycle of the chat models.
+   */
+  getLanguageModel(backend: string, modelName: string): LanguageModelV3;
+  /**
+   * Unload a model. Returns false when it is not loaded.
+   */
+  unloadModel(backend: string, modelName: string): boolean;
+}
+
+/**
+ * The in-browser AI backend registry token.
+ */
+export const IBrowserAIBackendRegistry = new Token<IBrowserAIBackendRegistry>(
+  'jupyterlab-browser-ai:IBrowserAIBackendRegistry',
+  'A registry of in-browser AI backends exposed as chat providers.'
+);
@@ -0,0 +1,274 @@
+import { Notification } from '@jupyterlab/apputils';
+
+import {
+  transformersJS,
+  doesBrowserSupportTransformersJS
+} from '@browser-ai/transformers-js';
+import { doesBrowserSupportWebLLM } from '@browser-ai/web-llm';
+
+import {
+  BACKEND_LABELS,
+  getUserConfiguredModelNames,
+  normalizeModelName,
+  TRANSFORMERS_CUSTOM_MODELS_SETTING
+} from './browser-ai-shared';
+import { unloadModel } from './model-lifecycle';
+import {
+  clearBackendCache,
+  deleteCachedModel,
+  isModelCached,
+  listCachedModels,
+  verifyCachedModel
+} from './model-storage';
+import type { IBrowserAIBackend, IBrowserAIBackendModel } from './tokens';
+import {
+  configureTransformersWorker,
+  getTransformersContextWindow,
+  getTransformersDownloadSize,
+  getTransformersEnvironment,
+  setTransformersEnvironment,
+  validateTransformersModel
+} from './transformers-models';
+
+const TRANSFORMERS_NO_WEBGPU_WARNING_MESSAGE =
+  'WebGPU is not available. Transformers.js will run on CPU and may be slower.';
+
+type TransformersModelSettings = NonNullable<
+  Parameters<typeof transformersJS>[1]
+>;
+
+type TransformersModelLoadOptions = Partial<
+  Pick<
+    TransformersModelSettings,
+    'dtype' | 'device' | 'use_external_data_format' | 'isVisionModel'
+  >
+>;
+
+const TRANSFORMERS_DTYPES = [
+  'auto',
+  'fp32',
+  'fp16',
+  'q8',
+  'int8',
+  'uint8',
+  'q4',
+  'bnb4',
+  'q4f16'
+];
+const TRANSFORMERS_DEVICES = ['auto', 'webgpu', 'wasm'];
+
+const TRANSFORMERS_MODEL_SETTINGS_BY_ID: Record<
+  string,
+  TransformersModelLoadOptions
+> = {
+  // Upstream browser-ai examples use q4 for SmolLM2 in the browser.
+  'HuggingFaceTB/SmolLM2-360M-Instruct': { dtype: 'q4' },
+  // ONNX community model cards recommend q4 for Qwen2.5 coder/instruct.
+  'onnx-community/Qwen2.5-Coder-0.5B-Instruct': { dtype: 'q4' },
+  'onnx-community/Qwen2.5-0.5B-Instruct': { dtype: 'q4' },
+  // Qwen3 ONNX cards recommend q4f16 for browser usage.
+  'onnx-community/Qwen3-0.6B-ONNX': { dtype: 'q4f16' },
+  // Upstream browser-ai examples use fp16 for tool-calling-focused models.
+  'onnx-community/granite-4.0-350m-ONNX-web': { dtype: 'fp16' },
+  'onnx-community/LFM2-1.2B-Tool-ONNX': { dtype: 'fp16' },
+  // SmolVLM ships one ONNX file per module, loaded with its own dtype.
+  'HuggingFaceTB/SmolVLM-256M-Instruct': { isVisionModel: true },
+  'HuggingFaceTB/SmolVLM-500M-Instruct': { isVisionModel: true }
+};
+
+/**
+ * Per-model load options from the "transformersJsModels" setting, merged over
+ * the built-in table.
+ */
+let transformersModelOverrides = new Map<
+  string,
+  TransformersModelLoadOptions
+>();
+
+/**
+ * The load options of the created models, to recreate them when they change.
+ */
+const transformersModelLoadOptionsKeys = new Map<string, string>();
+
+function getTransformersModelOverrides(
+  value: unknown
+): Map<string, TransformersModelLoadOptions> {
+  const overrides = new Map<string, TransformersModelLoadOptions>();
+  if (!Array.isArray(value)) {
+    return overrides;
+  }
+
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') {
+      continue;
+    }
+
+    const modelName = normalizeModelName(entry.id);
+    if (!modelName) {
+      continue;
+    }
+
+    const options: TransformersModelLoadOptions = {};
+    if (TRANSFORMERS_DTYPES.includes(entry.dtype)) {
+      options.dtype = entry.dtype;
+    } else if (entry.dtype !== undefined) {
+      console.warn(
+        `Ignoring unsupported dtype "${entry.dtype}" for Transformers.js model "${modelName}"`
+      );
+    }
+    if (TRANSFORMERS_DEVICES.includes(entry.device)) {
+      options.device = entry.device;
+    } else if (entry.device !== undefined) {
+      console.warn(
+        `Ignoring unsupported device "${entry.device}" for Transformers.js model "${modelName}"`
+      );
+    }
+    if (typeof entry.use_external_data_format === 'boolean') {
+      options.use_external_data_format = entry.use_external_data_format;
+    }
+    if (typeof entry.isVisionModel === 'boolean') {
+      options.isVisionModel = entry.isVisionModel;
+    }
+
+    overrides.set(modelName, options);
+  }
+
+  return overrides;
+}
+
+function getTransformersModelLoadOptions(
+  modelName: string
+): TransformersModelLoadOptions {
+  return {
+    ...TRANSFORMERS_MODEL_SETTINGS_BY_ID[modelName],
+    ...transformersModelOverrides.get(modelName)
+  };
+}
+
+/**
+ * Whether a Transformers.js model is loaded as a vision-language model, which
+ * receives the images of the messages.
+ */
+export function isTransformersVisionModel(modelName: string): boolean {
+  return getTransformersModelLoadOptions(modelName).isVisionModel === true;
+}
+
+function setTransformersModelOverrides(
+  overrides: Map<string, TransformersModelLoadOptions>
+): void {
+  transformersModelOverrides = overrides;
+
+  // Models loaded with outdated options are recreated on next use.
+  for (const [modelName, loadOptionsKey] of [
+    ...transformersModelLoadOptionsKeys
+  ]) {
+    if (
+      JSON.stringify(getTransformersModelLoadOptions(modelName)) !==
+      loadOptionsKey
+    ) {
+      unloadModel('transformers-js', modelName);
+    }
+  }
+}
+
+let hasShownTransformersNoWebGPUWarning = false;
+
+function maybeWarnOnTransformersWithoutWebGPU(): void {
+  if (hasShownTransformersNoWebGPUWarning || doesBrowserSupportWebLLM()) {
+    return;
+  }
+
+  hasShownTransformersNoWebGPUWarning = true;
+  Notification.emit(TRANSFORMERS_NO_WEBGPU_WARNING_MESSAGE, 'warning', {
+    autoClose: 5000
+  });
+}
+
+function createTransformersModel(modelName: string): IBrowserAIBackendModel {
+  maybeWarnOnTransformersWithoutWebGPU();
+
+  const modelSettings = getTransformersModelLoadOptions(modelName);
+  const worker = new Worker(
+    new URL('./transformersjs-worker.js', import.meta.url),
+    {
+      type: 'module'
+    }
+  );
+  configureTransformersWorker(worker);
+  const languageModel = transformersJS(modelName, {
+    ...modelSettings,
+    worker
+  });
+  transformersModelLoadOptionsKeys.set(
+    modelName,
+    JSON.stringify(modelSettings)
+  );
+
+  return {
+    languageModel,
+    worker,
+    availability: () => languageModel.availability(),
+    // Transformers.js creates the inference session once every file is
+    // downloaded, so a complete download means compiling.
+    initialize: async onProgress => {
+      await languageModel.createSessionWithProgress(progress => {
+        onProgress({ progress });
+      });
+    },
+    dispose: () => {
+      worker.terminate();
+      transformersModelLoadOptionsKeys.delete(modelName);
+    }
+  };
+}
+
+/**
+ * The Transformers.js backend, running ONNX models with WebGPU or
+ * WebAssembly.
+ */
+export const transformersBackend: IBrowserAIBackend = {
+  id: 'transformers-js',
+  name: BACKEND_LABELS['transformers-js'],
+  description:
+    'Small on-device models accelerated with WebGPU when available. Configure model IDs in the "transformersJsModels" setting.',
+  supportsToolCalling: true,
+  settings: {
+    key: TRANSFORMERS_CUSTOM_MODELS_SETTING,
+    update: composite => {
+      setTransformersModelOverrides(
+        getTransformersModelOverrides(
+          composite[TRANSFORMERS_CUSTOM_MODELS_SETTING]
+        )
+      );
+      if (setTransformersEnvironment(getTransformersEnvironment(composite))) {
+        // Workers are configured on creation, so reload the loaded models
+        // from the new location on next use.
+        for (const modelName of [...transformersModelLoadOptionsKeys.keys()]) {
+          unloadModel('transformers-js', modelName);
+        }
+      }
+
+      return getUserConfiguredModelNames(
+        composite[TRANSFORMERS_CUSTOM_MODELS_SETTING]
+      );
+    }
+  },
+  isSupported: () => doesBrowserSupportTransformersJS(),
+  createModel: createTransformersModel,
+  isModelCached: modelName => isModelCached('transformers-js', modelName),
+  getContextWindow: getTransformersContextWindow,
+  validateModel: validateTransformersModel,
+  getModelDownloadSize: async modelName => {
+    const { dtype } = getTransformersModelLoadOptions(modelName);
+    return typeof dtype === 'string'
+      ? getTransformersDownloadSize(modelName, dtype)
+      : null;
+  },
+  verifyModelCache: modelName =>
+    verifyCachedModel('transformers-js', modelName),
+  deleteModelCache: modelName =>
+    deleteCachedModel('transformers-js', modelName),
+  listCachedModels: configuredModelNames =>
+    listCachedModels('transformers-js', configuredModelNames),
+  clearModelCache: () => clearBackendCache('transformers-js')
+};
@@ -0,0 +1,24 @@
+import { env } from '@huggingface/transformers';
+
+import type { ITransformersEnvironment } from './transformers-models';
+
+/**
+ * Apply the environment sent by the main thread to the Transformers.js `env`
+ * of a worker.
+ */
+export function applyTransformersEnvironment(
+  environment: ITransformersEnvironment
+): void {
+  env.allowRemoteModels = environment.allowRemoteModels;
+  env.allowLocalModels = environment.allowLocalModels;
+
+  if (environment.remoteHost) {
+    env.remoteHost = environment.remoteHost;
+  }
+  if (environment.remotePathTemplate) {
+    env.remotePathTemplate = environment.remotePathTemplate;
+  }
+  if (environment.localModelPath) {
+    env.localModelPath = environment.localModelPath;
+  }
+}
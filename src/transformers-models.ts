@@ -0,0 +1,360 @@
+import { PageConfig } from '@jupyterlab/coreutils';
+
+/**
+ * Where the Transformers.js workers load model files from. Mirrors the
+ * corresponding fields of the Transformers.js `env`.
+ */
+export interface ITransformersEnvironment {
+  allowRemoteModels: boolean;
+  remoteHost?: string;
+  remotePathTemplate?: string;
+  allowLocalModels: boolean;
+  localModelPath?: string;
+}
+
+/**
+ * Message sent to a Transformers.js worker before anything else, so the
+ * environment is applied before the handler loads a model.
+ */
+export interface ITransformersConfigureMessage {
+  type: 'configure';
+  data: ITransformersEnvironment;
+}
+
+const DEFAULT_TRANSFORMERS_ENVIRONMENT: ITransformersEnvironment = {
+  allowRemoteModels: true,
+  allowLocalModels: false
+};
+
+let transformersEnvironment: ITransformersEnvironment = {
+  ...DEFAULT_TRANSFORMERS_ENVIRONMENT
+};
+
+/**
+ * Resolve a directory URL from the settings. Relative URLs point to the
+ * Jupyter server or the JupyterLite site.
+ */
+function resolveSiteDirectoryUrl(url: string): string {
+  const baseUrl = new URL(PageConfig.getBaseUrl(), window.location.href);
+  const resolvedUrl = new URL(url, baseUrl).href;
+  return resolvedUrl.endsWith('/') ? resolvedUrl : `${resolvedUrl}/`;
+}
+
+function getNonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+/**
+ * Build the Transformers.js environment from the plugin settings composite.
+ */
+export function getTransformersEnvironment(
+  composite: Record<string, unknown>
+): ITransformersEnvironment {
+  const environment: ITransformersEnvironment = {
+    ...DEFAULT_TRANSFORMERS_ENVIRONMENT,
+    allowRemoteModels: composite.transformersJsAllowRemoteModels !== false
+  };
+
+  const localModelPath = getNonEmptyString(
+    composite.transformersJsLocalModelPath
+  );
+  if (localModelPath) {
+    environment.allowLocalModels = true;
+    environment.localModelPath = resolveSiteDirectoryUrl(localModelPath);
+  }
+
+  const remoteHost = getNonEmptyString(composite.transformersJsRemoteHost);
+  if (remoteHost) {
+    environment.remoteHost = resolveSiteDirectoryUrl(remoteHost);
+  }
+
+  const remotePathTemplate = getNonEmptyString(
+    composite.transformersJsRemotePathTemplate
+  );
+  if (remotePathTemplate) {
+    environment.remotePathTemplate = remotePathTemplate;
+  }
+
+  return environment;
+}
+
+/**
+ * Replace the environment used by new Transformers.js workers.
+ *
+ * Returns whether it changed.
+ */
+export function setTransformersEnvironment(
+  environment: ITransformersEnvironment
+): boolean {
+  const changed =
+    JSON.stringify(environment) !== JSON.stringify(transformersEnvironment);
+  transformersEnvironment = environment;
+  return changed;
+}
+
+/**
+ * Configure a newly created Transformers.js worker.
+ */
+export function configureTransformersWorker(worker: Worker): void {
+  const message: ITransformersConfigureMessage = {
+    type: 'configure',
+    data: transformersEnvironment
+  };
+  worker.postMessage(message);
+}
+
+/**
+ * The Transformers.js model ID a cached file belongs to, e.g.
+ * `https://huggingface.co/onnx-community/Qwen3-0.6B-ONNX/resolve/main/config.json`
+ * or `<localModelPath>/onnx-community/Qwen3-0.6B-ONNX/config.json`.
+ */
+export function getTransformersModelIdFromUrl(url: string): string | null {
+  const { localModelPath, remoteHost } = transformersEnvironment;
+  const modelRoot = [localModelPath, remoteHost].find(
+    root => root && url.startsWith(root)
+  );
+  const modelPath = modelRoot
+    ? url.slice(modelRoot.length)
+    : new URL(url).pathname.replace(/^\//, '');
+
+  const match =
+    modelPath.match(/([^/]+\/[^/]+)\/resolve\//) ??
+    modelPath.match(/^([^/]+\/[^/]+)\//);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+const DEFAULT_REMOTE_HOST = 'https://huggingface.co/';
+const DEFAULT_REMOTE_PATH_TEMPLATE = '{model}/resolve/{revision}/';
+
+/**
+ * The URLs Transformers.js loads a file of a model from, in order.
+ */
+function getTransformersFileUrls(modelId: string, fileName: string): string[] {
+  const {
+    allowLocalModels,
+    localModelPath,
+    allowRemoteModels,
+    remoteHost,
+    remotePathTemplate
+  } = transformersEnvironment;
+
+  const urls: string[] = [];
+  if (allowLocalModels && localModelPath) {
+    urls.push(`${localModelPath}${modelId}/${fileName}`);
+  }
+  if (allowRemoteModels) {
+    const modelPath = (remotePathTemplate ?? DEFAULT_REMOTE_PATH_TEMPLATE)
+      .replace(/\{model\}/g, modelId)
+      .replace(/\{revision\}/g, 'main');
+    urls.push(`${remoteHost ?? DEFAULT_REMOTE_HOST}${modelPath}${fileName}`);
+  }
+  return urls;
+}
+
+function isJSONObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Read the `config.json` of a model from the browser cache, or download it.
+ */
+async function fetchTransformersModelConfig(
+  modelId: string
+): Promise<Record<string, unknown> | null> {
+  for (const url of getTransformersFileUrls(modelId, 'config.json')) {
+    try {
+      const cached =
+        typeof caches !== 'undefined' ? await caches.match(url) : undefined;
+      const response = cached ?? (await fetch(url));
+      if (response.ok) {
+        const config: unknown = await response.json();
+        return isJSONObject(config) ? config : null;
+      }
+    } catch {
+      // Try the next location.
+    }
+  }
+  return null;
+}
+
+const transformersContextWindows = new Map<string, Promise<number | null>>();
+
+/**
+ * The context window of a Transformers.js model, from the maximum position
+ * embeddings of its config. Vision-language models nest it in their text
+ * config.
+ */
+export function getTransformersContextWindow(
+  modelId: string
+): Promise<number | null> {
+  const key = JSON.stringify([modelId, transformersEnvironment]);
+  let contextWindow = transformersContextWindows.get(key);
+  if (!contextWindow) {
+    contextWindow = fetchTransformersModelConfig(modelId).then(config => {
+      const value = [config, config?.text_config]
+        .filter(isJSONObject)
+        .map(
+          modelConfig =>
+            modelConfig.max_position_embeddings ?? modelConfig.n_positions
+        )
+        .find((size): size is number => typeof size === 'number' && size > 0);
+      if (value === undefined) {
+        // Look it up again next time, e.g. once back online.
+        transformersContextWindows.delete(key);
+      }
+      return value ?? null;
+    });
+    transformersContextWindows.set(key, contextWindow);
+  }
+  return contextWindow;
+}
+
+/**
+ * The files of a Hugging Face model repository, or null when it does not
+ * exist. Throws when the Hub cannot be reached.
+ */
+async function fetchHubModelFiles(modelId: string): Promise<string[] | null> {
+  const response = await fetch(
+    `${DEFAULT_REMOTE_HOST}api/models/${modelId
+      .split('/')
+      .map(encodeURIComponent)
+      .join('/')}`
+  );
+  if (response.status === 401 || response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  const { siblings } = (await response.json()) as {
+    siblings?: Array<{ rfilename: string }>;
+  };
+  return (siblings ?? []).map(sibling => sibling.rfilename);
+}
+
+/**
+ * Check a Transformers.js model ID: a local copy needs a `config.json`, and
+ * Hugging Face models need ONNX weights in their `onnx` folder. Mirrors other
+ * than the Hub are only checked for a `config.json`.
+ */
+async function checkTransformersModel(modelId: string): Promise<string | null> {
+  if (!/^[\w.-]+\/[\w.-]+$/.test(modelId)) {
+    return `"${modelId}" is not a model ID like "onnx-community/Qwen3-0.6B-ONNX".`;
+  }
+
+  const { allowLocalModels, localModelPath, allowRemoteModels, remoteHost } =
+    transformersEnvironment;
+  if (allowLocalModels && localModelPath) {
+    const [localUrl] = getTransformersFileUrls(modelId, 'config.json');
+    try {
+      if ((await fetch(localUrl, { method: 'HEAD' })).ok) {
+        return null;
+      }
+    } catch {
+      // Look for the model remotely.
+    }
+  }
+
+  if (!allowRemoteModels) {
+    return `"${modelId}" was not found in the local model path "${localModelPath ?? ''}", and remote models are disabled.`;
+  }
+
+  if (remoteHost && remoteHost !== DEFAULT_REMOTE_HOST) {
+    const remoteUrl = getTransformersFileUrls(modelId, 'config.json').pop()!;
+    const response = await fetch(remoteUrl, { method: 'HEAD' });
+    return response.ok ? null : `"${modelId}" was not found on ${remoteHost}.`;
+  }
+
+  const files = await fetchHubModelFiles(modelId);
+  if (!files) {
+    return `"${modelId}" does not exist on Hugging Face, or is private.`;
+  }
+  if (!files.some(file => /^onnx\/.+\.onnx$/.test(file))) {
+    return `"${modelId}" has no ONNX weights for Transformers.js. Look for a conversion, often published by onnx-community or Xenova.`;
+  }
+  return null;
+}
+
+const transformersModelErrors = new Map<string, Promise<string | null>>();
+
+/**
+ * Why a Transformers.js model cannot be loaded, or null when it looks valid
+ * or cannot be checked, e.g. offline.
+ */
+export function validateTransformersModel(
+  modelId: string
+): Promise<string | null> {
+  const key = JSON.stringify([modelId, transformersEnvironment]);
+  let error = transformersModelErrors.get(key);
+  if (!error) {
+    error = checkTransformersModel(modelId).catch(() => {
+      // Check again next time, e.g. once back online.
+      transformersModelErrors.delete(key);
+      return null;
+    });
+    transformersModelErrors.set(key, error);
+  }
+  return error;
+}
+
+/**
+ * The file name suffixes of the ONNX weights of each dtype, as published by
+ * the Transformers.js conversion scripts.
+ */
+const TRANSFORMERS_DTYPE_SUFFIXES: Record<string, string> = {
+  fp32: '',
+  fp16: '_fp16',
+  q8: '_quantized',
+  int8: '_int8',
+  uint8: '_uint8',
+  q4: '_q4',
+  q4f16: '_q4f16',
+  bnb4: '_bnb4'
+};
+
+/**
+ * The number of bytes of the ONNX weights of a Hugging Face model in a dtype,
+ * or null when unknown, e.g. for models served from a mirror.
+ */
+export async function getTransformersDownloadSize(
+  modelId: string,
+  dtype: string
+): Promise<number | null> {
+  const { allowRemoteModels, remoteHost } = transformersEnvironment;
+  const suffix = TRANSFORMERS_DTYPE_SUFFIXES[dtype];
+  if (
+    suffix === undefined ||
+    !allowRemoteModels ||
+    (remoteHost && remoteHost !== DEFAULT_REMOTE_HOST)
+  ) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(
+      `${DEFAULT_REMOTE_HOST}api/models/${modelId}/tree/main/onnx`
+    );
+    if (!response.ok) {
+      return null;
+    }
+    const files = (await response.json()) as Array<{
+      path: string;
+      size: number;
+    }>;
+    const suffixes = Object.values(TRANSFORMERS_DTYPE_SUFFIXES).filter(Boolean);
+    const size = files
+      .filter(file => {
+        const match = file.path.match(/^onnx\/(.+)\.onnx(_data(_\d+)?)?$/);
+        if (!match) {
+          return false;
+        }
+        const fileSuffix =
+          suffixes.find(value => match[1].endsWith(value)) ?? '';
+        return fileSuffix === suffix;
+      })
+      .reduce((total, file) => total + file.size, 0);
+    return size > 0 ? size : null;
+  } catch {
+    return null;
+  }
+}
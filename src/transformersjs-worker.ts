@@ -1,7 +1,16 @@
 import { TransformersJSWorkerHandler } from '@browser-ai/transformers-js';
 
+import { applyTransformersEnvironment } from './transformers-environment';
+import type { ITransformersConfigureMessage } from './transformers-models';
+
 const handler = new TransformersJSWorkerHandler();
 
 self.onmessage = (msg: MessageEvent) => {
+  const message = msg.data as ITransformersConfigureMessage;
+  if (message?.type === 'configure') {
+    applyTransformersEnvironment(message.data);
+    return;
+  }
+
   handler.onmessage(msg);
 };
@@ -0,0 +1,123 @@
+import { webLLM, doesBrowserSupportWebLLM } from '@browser-ai/web-llm';
+
+import {
+  BACKEND_LABELS,
+  getUserConfiguredModelNames,
+  WEBLLM_CUSTOM_MODEL_RECORDS_SETTING,
+  WEBLLM_CUSTOM_MODELS_SETTING
+} from './browser-ai-shared';
+import { unloadModel } from './model-lifecycle';
+import {
+  clearBackendCache,
+  deleteCachedModel,
+  isModelCached,
+  listCachedModels,
+  verifyCachedModel
+} from './model-storage';
+import type {
+  IBrowserAIBackend,
+  IBrowserAIBackendModel,
+  IBrowserAIProgress
+} from './tokens';
+import {
+  getCustomWebLLMModelIds,
+  getCustomWebLLMModelRecords,
+  getWebLLMAppConfig,
+  getWebLLMContextWindow,
+  getWebLLMDownloadSize,
+  getWebLLMModelError,
+  setCustomWebLLMModelRecords
+} from './webllm-models';
+
+/**
+ * WebLLM reports "Fetching param cache[...]" while downloading weights and
+ * "Loading GPU shader modules[...]" while compiling them.
+ */
+function getWebLLMLoadPhase(
+  progressMessage: string
+): IBrowserAIProgress['phase'] {
+  return /shader|finish loading/i.test(progressMessage)
+    ? 'compiling'
+    : 'downloading';
+}
+
+function createWebLLMModel(modelName: string): IBrowserAIBackendModel {
+  const worker = new Worker(new URL('./webllm-worker.js', import.meta.url), {
+    type: 'module'
+  });
+
+  // WebLLM takes the progress callback on creation, not on initialization.
+  let onProgress: ((progress: IBrowserAIProgress) => void) | null = null;
+  const languageModel = webLLM(modelName, {
+    appConfig: getWebLLMAppConfig(),
+    worker,
+    initProgressCallback: report => {
+      onProgress?.({
+        progress: report.progress,
+        phase: getWebLLMLoadPhase(report.text ?? ''),
+        message: report.text || undefined
+      });
+    }
+  });
+
+  return {
+    languageModel,
+    worker,
+    availability: () => languageModel.availability(),
+    initialize: async callback => {
+      onProgress = callback;
+      try {
+        await languageModel.createSessionWithProgress();
+      } finally {
+        onProgress = null;
+      }
+    },
+    dispose: () => worker.terminate()
+  };
+}
+
+/**
+ * The WebLLM backend, running MLC models with WebGPU.
+ */
+export const webLLMBackend: IBrowserAIBackend = {
+  id: 'web-llm',
+  name: BACKEND_LABELS['web-llm'],
+  description:
+    'On-device browser models accelerated with WebGPU. Configure model IDs in the "webLLMModels" setting.',
+  supportsToolCalling: true,
+  settings: {
+    key: WEBLLM_CUSTOM_MODELS_SETTING,
+    update: composite => {
+      const changedCustomModelIds = setCustomWebLLMModelRecords(
+        getCustomWebLLMModelRecords(
+          composite[WEBLLM_CUSTOM_MODEL_RECORDS_SETTING]
+        )
+      );
+      // Custom models loaded from an outdated record are recreated on next
+      // use.
+      for (const modelName of changedCustomModelIds) {
+        unloadModel('web-llm', modelName);
+      }
+
+      return [
+        ...new Set([
+          ...getUserConfiguredModelNames(
+            composite[WEBLLM_CUSTOM_MODELS_SETTING]
+          ),
+          ...getCustomWebLLMModelIds()
+        ])
+      ];
+    }
+  },
+  isSupported: () => doesBrowserSupportWebLLM(),
+  createModel: createWebLLMModel,
+  isModelCached: modelName => isModelCached('web-llm', modelName),
+  getContextWindow: getWebLLMContextWindow,
+  validateModel: async modelName => getWebLLMModelError(modelName),
+  getModelDownloadSize: getWebLLMDownloadSize,
+  verifyModelCache: modelName => verifyCachedModel('web-llm', modelName),
+  deleteModelCache: modelName => deleteCachedModel('web-llm', modelName),
+  listCachedModels: configuredModelNames =>
+    listCachedModels('web-llm', configuredModelNames),
+  clearModelCache: () => clearBackendCache('web-llm')
+};
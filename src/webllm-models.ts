@@ -0,0 +1,358 @@
+import { PageConfig } from '@jupyterlab/coreutils';
+
+import {
+  ModelType,
+  prebuiltAppConfig,
+  type AppConfig,
+  type ModelRecord
+} from '@mlc-ai/web-llm';
+
+import { normalizeModelName } from './browser-ai-shared';
+
+let customWebLLMModelRecords: ModelRecord[] = [];
+
+/**
+ * Resolve a URL from the settings. Relative URLs point to files served with
+ * the site, e.g. the `files/` of a JupyterLite deployment.
+ */
+function resolveSiteUrl(url: string): string {
+  const baseUrl = new URL(PageConfig.getBaseUrl(), window.location.href);
+  return new URL(url, baseUrl).href;
+}
+
+function toPositiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+    ? value
+    : undefined;
+}
+
+/**
+ * Parse the "webLLMCustomModels" setting into WebLLM model records.
+ */
+export function getCustomWebLLMModelRecords(value: unknown): ModelRecord[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const records = new Map<string, ModelRecord>();
+
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') {
+      continue;
+    }
+
+    const modelId = normalizeModelName(entry.model_id);
+    const modelUrl = normalizeModelName(entry.model);
+    const modelLibUrl = normalizeModelName(entry.model_lib);
+    if (!modelId || !modelUrl || !modelLibUrl) {
+      console.warn(
+        'Ignoring custom WebLLM model without "model_id", "model" and "model_lib"',
+        entry
+      );
+      continue;
+    }
+
+    const record: ModelRecord = {
+      model_id: modelId,
+      model: resolveSiteUrl(modelUrl),
+      model_lib: resolveSiteUrl(modelLibUrl)
+    };
+
+    const vramRequired = toPositiveNumber(entry.vram_required_MB);
+    if (vramRequired !== undefined) {
+      record.vram_required_MB = vramRequired;
+    }
+
+    const contextWindowSize = toPositiveNumber(entry.context_window_size);
+    if (contextWindowSize !== undefined) {
+      record.overrides = { context_window_size: Math.floor(contextWindowSize) };
+    }
+
+    if (typeof entry.low_resource_required === 'boolean') {
+      record.low_resource_required = entry.low_resource_required;
+    }
+
+    if (Array.isArray(entry.required_features)) {
+      record.required_features = entry.required_features.filter(
+        (feature: unknown) => typeof feature === 'string'
+      );
+    }
+
+    records.set(modelId, record);
+  }
+
+  return [...records.values()];
+}
+
+/**
+ * Replace the custom model records fed into the WebLLM app config.
+ *
+ * Returns the IDs of the custom models whose record changed.
+ */
+export function setCustomWebLLMModelRecords(records: ModelRecord[]): string[] {
+  const previousRecords = new Map(
+    customWebLLMModelRecords.map(record => [record.model_id, record])
+  );
+  customWebLLMModelRecords = records;
+
+  const changedModelIds = new Set<string>(previousRecords.keys());
+  for (const record of records) {
+    const previousRecord = previousRecords.get(record.model_id);
+    if (
+      previousRecord &&
+      JSON.stringify(previousRecord) === JSON.stringify(record)
+    ) {
+      changedModelIds.delete(record.model_id);
+    } else {
+      changedModelIds.add(record.model_id);
+    }
+  }
+
+  return [...changedModelIds];
+}
+
+/**
+ * The IDs of the custom WebLLM models declared in the settings.
+ */
+export function getCustomWebLLMModelIds(): string[] {
+  return customWebLLMModelRecords.map(record => record.model_id);
+}
+
+/**
+ * The WebLLM app config: the prebuilt catalog extended with the custom model
+ * records. Custom records take precedence over prebuilt ones with the same ID.
+ */
+export function getWebLLMAppConfig(): AppConfig {
+  if (customWebLLMModelRecords.length === 0) {
+    return prebuiltAppConfig;
+  }
+
+  const customModelIds = new Set(getCustomWebLLMModelIds());
+  return {
+    ...prebuiltAppConfig,
+    model_list: [
+      ...customWebLLMModelRecords,
+      ...prebuiltAppConfig.model_list.filter(
+        record => !customModelIds.has(record.model_id)
+      )
+    ]
+  };
+}
+
+/**
+ * Mirror of WebLLM's model URL normalization, which downloads weights from
+ * `<model>/resolve/main/` unless the URL already points to a revision.
+ */
+export function getWebLLMModelBaseUrl(modelUrl: string): string {
+  let url = modelUrl.endsWith('/') ? modelUrl : `${modelUrl}/`;
+  if (!/.+\/resolve\/.+\//.test(url)) {
+    url += 'resolve/main/';
+  }
+  return new URL(url).href;
+}
+
+/**
+ * The cache where WebLLM stores the weights and their `tensor-cache.json`.
+ */
+export const WEBLLM_MODEL_CACHE_NAME = 'webllm/model';
+
+const webLLMContextWindows = new Map<string, Promise<number | null>>();
+
+async function fetchWebLLMContextWindow(
+  modelUrl: string
+): Promise<number | null> {
+  const url = `${getWebLLMModelBaseUrl(modelUrl)}mlc-chat-config.json`;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return null;
+    }
+    const config = await response.json();
+    return toPositiveNumber(config.context_window_size) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The context window of a WebLLM model: the override of its record, or the
+ * one of its MLC chat config.
+ */
+export function getWebLLMContextWindow(
+  modelName: string
+): Promise<number | null> {
+  const record = getWebLLMAppConfig().model_list.find(
+    modelRecord => modelRecord.model_id === modelName
+  );
+  if (!record) {
+    return Promise.resolve(null);
+  }
+
+  const override = toPositiveNumber(record.overrides?.context_window_size);
+  if (override !== undefined) {
+    return Promise.resolve(override);
+  }
+
+  let contextWindow = webLLMContextWindows.get(record.model);
+  if (!contextWindow) {
+    const modelUrl = record.model;
+    contextWindow = fetchWebLLMContextWindow(modelUrl).then(value => {
+      if (value === null) {
+        // Look it up again next time, e.g. once back online.
+        webLLMContextWindows.delete(modelUrl);
+      }
+      return value;
+    });
+    webLLMContextWindows.set(modelUrl, contextWindow);
+  }
+  return contextWindow;
+}
+
+/**
+ * The WebLLM chat models of the app config, without the embedding models.
+ */
+export function getWebLLMChatModelRecords(): ModelRecord[] {
+  return getWebLLMAppConfig().model_list.filter(
+    record => record.model_type !== ModelType.embedding
+  );
+}
+
+/**
+ * The number of single-character edits between two strings.
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Why a WebLLM model ID cannot be loaded, or null when it is in the app
+ * config. Suggests the closest known ID for typos.
+ */
+export function getWebLLMModelError(modelName: string): string | null {
+  const records = getWebLLMChatModelRecords();
+  if (records.some(record => record.model_id === modelName)) {
+    return null;
+  }
+
+  let message = `"${modelName}" is neither a prebuilt WebLLM model nor declared in the "webLLMCustomModels" setting.`;
+  const lowerCaseName = modelName.toLowerCase();
+  const [closest] = records
+    .map(record => ({
+      modelId: record.model_id,
+      distance: getEditDistance(lowerCaseName, record.model_id.toLowerCase())
+    }))
+    .sort((a, b) => a.distance - b.distance);
+  if (closest && closest.distance <= Math.max(3, modelName.length / 4)) {
+    message += ` Did you mean "${closest.modelId}"?`;
+  }
+  return message;
+}
+
+/**
+ * Model details shown in the model picker of the settings.
+ */
+export interface IWebLLMModelInfo {
+  modelId: string;
+  /**
+   * The number of parameters, e.g. "0.5B", parsed from the model ID.
+   */
+  parameters: string | null;
+  /**
+   * The MLC quantization, e.g. "q4f16_1", parsed from the model ID.
+   */
+  quantization: string | null;
+  vramRequiredMB: number | null;
+  contextWindow: number | null;
+  lowResource: boolean;
+  vision: boolean;
+}
+
+/**
+ * The details of a WebLLM model record.
+ */
+export function getWebLLMModelInfo(record: ModelRecord): IWebLLMModelInfo {
+  const { model_id: modelId } = record;
+  return {
+    modelId,
+    parameters:
+      modelId.match(/[-_](\d+(?:\.\d+)?[BM])(?=[-_]|$)/i)?.[1] ?? null,
+    quantization:
+      modelId.match(/[-_](q\d+f\d+(?:_\d+)?)(?=[-_]|$)/i)?.[1] ?? null,
+    vramRequiredMB: toPositiveNumber(record.vram_required_MB) ?? null,
+    contextWindow:
+      toPositiveNumber(record.overrides?.context_window_size) ?? null,
+    lowResource: record.low_resource_required === true,
+    vision: record.model_type === ModelType.VLM
+  };
+}
+
+/**
+ * A weight shard of a WebLLM model.
+ */
+export interface IWebLLMWeightShard {
+  url: string;
+  nbytes: number;
+}
+
+/**
+ * The weight shards of a WebLLM model, listed by its `tensor-cache.json`.
+ * With `cacheOnly`, the list is only read from the browser cache, where WebLLM
+ * keeps it next to the weights.
+ */
+export async function getWebLLMWeightShards(
+  modelName: string,
+  cacheOnly = false
+): Promise<IWebLLMWeightShard[] | null> {
+  const record = getWebLLMAppConfig().model_list.find(
+    modelRecord => modelRecord.model_id === modelName
+  );
+  if (!record) {
+    return null;
+  }
+
+  const baseUrl = getWebLLMModelBaseUrl(record.model);
+  const url = `${baseUrl}tensor-cache.json`;
+  try {
+    const cached =
+      typeof caches !== 'undefined'
+        ? await caches.match(url, { cacheName: WEBLLM_MODEL_CACHE_NAME })
+        : undefined;
+    const response = cached ?? (cacheOnly ? null : await fetch(url));
+    if (!response?.ok) {
+      return null;
+    }
+    const { records } = (await response.json()) as {
+      records?: Array<{ dataPath: string; nbytes: number }>;
+    };
+    return (records ?? []).map(shard => ({
+      url: new URL(shard.dataPath, baseUrl).href,
+      nbytes: shard.nbytes
+    }));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The number of bytes of the weights of a WebLLM model, or null when unknown.
+ */
+export async function getWebLLMDownloadSize(
+  modelName: string
+): Promise<number | null> {
+  const shards = await getWebLLMWeightShards(modelName);
+  return shards
+    ? shards.reduce((total, shard) => total + shard.nbytes, 0)
+    : null;
+}